@@ -0,0 +1,286 @@
+// Minimal in-memory REST backend for running the app with
+// VITE_STORAGE_ADAPTER=rest without a real server. Start it with
+// `npm run mock-api`; the Vite dev server proxies /api to it.
+import { createServer } from "node:http";
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { buildIcs } from "../shared/ical.js";
+
+const PORT = Number(process.env.MOCK_API_PORT || 4000);
+// Set MOCK_API_DB to a file path to keep data across restarts.
+const DB_FILE = process.env.MOCK_API_DB;
+
+// Matches the client's cap so both sides keep the same window of history.
+const MAX_ACTIVITY_ENTRIES = 500;
+
+const db = {
+  users: [],
+  projects: [],
+  tasks: [],
+  activity: [],
+  ...(DB_FILE && existsSync(DB_FILE)
+    ? JSON.parse(readFileSync(DB_FILE, "utf8"))
+    : {}),
+};
+const sessions = new Map();
+
+const save = () => {
+  if (DB_FILE) writeFileSync(DB_FILE, JSON.stringify(db, null, 2));
+};
+
+const hash = (password, salt) =>
+  scryptSync(password, salt, 32).toString("hex");
+
+const publicUser = ({ id, name, email }) => ({ id, name, email });
+
+const startSession = (user) => {
+  const token = randomBytes(24).toString("hex");
+  sessions.set(token, user.id);
+  return { user: publicUser(user), token };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const auth = {
+  register: ({ name, email, password }) => {
+    if (!name || !email || !password) return [400, { error: "Missing fields" }];
+    if (db.users.some((u) => u.email === email)) {
+      return [409, { error: "An account with this email already exists" }];
+    }
+    const salt = randomBytes(16).toString("hex");
+    const user = {
+      id: randomBytes(6).toString("hex"),
+      name,
+      email,
+      salt,
+      hash: hash(password, salt),
+    };
+    db.users.push(user);
+    save();
+    return [201, startSession(user)];
+  },
+
+  login: ({ email, password }) => {
+    const user = db.users.find((u) => u.email === email);
+    const valid =
+      user &&
+      timingSafeEqual(
+        Buffer.from(hash(password ?? "", user.salt), "hex"),
+        Buffer.from(user.hash, "hex")
+      );
+    if (!valid) return [401, { error: "Invalid email or password" }];
+    return [200, startSession(user)];
+  },
+};
+
+const strip = ({ ownerId: _ownerId, ...item }) => item;
+
+// Collection handlers for /api/projects and /api/tasks, scoped to the owner.
+const collection = (name, onDelete) => ({
+  list: (ownerId) =>
+    db[name].filter((item) => item.ownerId === ownerId).map(strip),
+
+  create: (ownerId, body) => {
+    if (!body.id) return [400, { error: "Missing id" }];
+    db[name].push({ ...body, ownerId });
+    save();
+    return [201, body];
+  },
+
+  update: (ownerId, id, body) => {
+    const item = db[name].find((i) => i.id === id && i.ownerId === ownerId);
+    if (!item) return [404, { error: "Not found" }];
+    Object.assign(item, body, { id, ownerId });
+    save();
+    return [200, strip(item)];
+  },
+
+  remove: (ownerId, id) => {
+    const before = db[name].length;
+    db[name] = db[name].filter((i) => !(i.id === id && i.ownerId === ownerId));
+    if (db[name].length === before) return [404, { error: "Not found" }];
+    onDelete?.(ownerId, id);
+    save();
+    return [204];
+  },
+});
+
+const resources = {
+  projects: collection("projects", (ownerId, id) => {
+    db.tasks = db.tasks.filter(
+      (t) => !(t.ownerId === ownerId && t.projectId === id)
+    );
+  }),
+  tasks: collection("tasks"),
+
+  // The activity log is append-only from the client's point of view, but a
+  // compacted entry is re-sent under its original id, so writes are upserts.
+  activity: {
+    list: (ownerId) =>
+      db.activity.filter((e) => e.ownerId === ownerId).map(strip),
+
+    put: (ownerId, id, body) => {
+      db.activity = db.activity.filter(
+        (e) => !(e.id === id && e.ownerId === ownerId)
+      );
+      db.activity.push({ ...body, id, ownerId });
+      const owned = db.activity.filter((e) => e.ownerId === ownerId);
+      const excess = new Set(
+        owned.slice(0, Math.max(0, owned.length - MAX_ACTIVITY_ENTRIES))
+      );
+      db.activity = db.activity.filter((e) => !excess.has(e));
+      save();
+      return [200, { ...body, id }];
+    },
+  },
+};
+
+// iCalendar feed of task due dates, built by the same module as the
+// client's export. Statuses are resolved against each project's workflow.
+const DEFAULT_WORKFLOW = [
+  { id: "todo", isDone: false },
+  { id: "in-progress", isDone: false },
+  { id: "completed", isDone: true },
+];
+
+// Query parameters: project (an id), type (todo or event) and completed=0 to
+// leave finished tasks out. Trashed and archived items never appear.
+const calendarFeed = (ownerId, params) => {
+  const projects = db.projects.filter(
+    (p) => p.ownerId === ownerId && !p.deletedAt && !p.archivedAt
+  );
+  const projectFilter = params.get("project");
+  const type = params.get("type") === "event" ? "event" : "todo";
+  const includeCompleted = params.get("completed") !== "0";
+  const project = projects.find((p) => p.id === projectFilter);
+
+  const entries = db.tasks
+    .filter(
+      (t) =>
+        t.ownerId === ownerId &&
+        !t.deletedAt &&
+        (projectFilter ? t.projectId === projectFilter : true)
+    )
+    .flatMap((task) => {
+      const taskProject = projects.find((p) => p.id === task.projectId);
+      if (!taskProject) return [];
+      const workflow = taskProject.statuses?.length
+        ? taskProject.statuses
+        : DEFAULT_WORKFLOW;
+      const done =
+        workflow.find((s) => s.id === task.status)?.isDone ?? false;
+      if (done && !includeCompleted) return [];
+      return [
+        {
+          task,
+          projectName: taskProject.name,
+          done,
+          started: workflow[0]?.id !== task.status,
+        },
+      ];
+    });
+
+  return buildIcs(entries, {
+    type,
+    calendarName: project ? `ProManage · ${project.name}` : "ProManage",
+  });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const [, api, resource, id] = url.pathname.split("/");
+  if (api !== "api") return send(res, 404, { error: "Not found" });
+
+  let body = {};
+  try {
+    body = await readBody(req);
+  } catch {
+    return send(res, 400, { error: "Invalid JSON" });
+  }
+  // Handlers read fields off the body, so `null`, arrays and bare values
+  // are turned away here.
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return send(res, 400, { error: "Expected a JSON object" });
+  }
+
+  if (resource === "auth") {
+    if (req.method === "POST" && id === "logout") {
+      sessions.delete(req.headers.authorization?.replace("Bearer ", ""));
+      return send(res, 204);
+    }
+    const handler =
+      req.method === "POST" && Object.hasOwn(auth, id) && auth[id];
+    if (!handler) return send(res, 404, { error: "Not found" });
+    return send(res, ...handler(body));
+  }
+
+  // Calendar apps can't send a bearer token, so the feed is authorized by
+  // the secret token in its URL instead.
+  if (
+    resource === "calendar" &&
+    req.method === "GET" &&
+    id?.endsWith(".ics")
+  ) {
+    const token = id.slice(0, -".ics".length);
+    const user = db.users.find((u) => u.feedToken && u.feedToken === token);
+    if (!user) return send(res, 404, { error: "Not found" });
+    res.writeHead(200, { "Content-Type": "text/calendar; charset=utf-8" });
+    return res.end(calendarFeed(user.id, url.searchParams));
+  }
+
+  const ownerId = sessions.get(
+    req.headers.authorization?.replace("Bearer ", "")
+  );
+  if (!ownerId) return send(res, 401, { error: "Not authenticated" });
+
+  if (resource === "calendar") {
+    if (req.method !== "GET" || id !== "token") {
+      return send(res, 404, { error: "Not found" });
+    }
+    const user = db.users.find((u) => u.id === ownerId);
+    if (!user.feedToken) {
+      user.feedToken = randomBytes(24).toString("hex");
+      save();
+    }
+    return send(res, 200, { token: user.feedToken });
+  }
+
+  const handlers =
+    Object.hasOwn(resources, resource) && resources[resource];
+  if (!handlers) return send(res, 404, { error: "Not found" });
+
+  if (req.method === "GET" && !id) return send(res, 200, handlers.list(ownerId));
+  if (req.method === "POST" && !id && handlers.create) {
+    return send(res, ...handlers.create(ownerId, body));
+  }
+  if (req.method === "PUT" && id && handlers.put) {
+    return send(res, ...handlers.put(ownerId, id, body));
+  }
+  if (req.method === "PATCH" && id && handlers.update) {
+    return send(res, ...handlers.update(ownerId, id, body));
+  }
+  if (req.method === "DELETE" && id && handlers.remove) {
+    return send(res, ...handlers.remove(ownerId, id));
+  }
+  send(res, 405, { error: "Method not allowed" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API listening on http://localhost:${PORT}/api`);
+});
@@ -0,0 +1,34 @@
+/**
+ * VTODO keeps completion and suits task apps (Apple Reminders, Thunderbird);
+ * VEVENT shows up in calendars that ignore to-dos, such as Google Calendar.
+ */
+export type IcsEntryType = "todo" | "event";
+
+/** The task fields the calendar reads. */
+export interface IcsTask {
+  id: string;
+  title: string;
+  description: string;
+  status: string;
+  priority: "low" | "medium" | "high";
+  dueDate: string;
+  startDate?: string;
+  createdAt: string;
+  parentId?: string;
+  statusHistory?: { status: string; at: string }[];
+}
+
+export interface IcsEntry {
+  task: IcsTask;
+  projectName?: string;
+  /** Whether the task's status is a done one in its project's workflow. */
+  done: boolean;
+  /** Whether it has moved past its workflow's first status. */
+  started: boolean;
+}
+
+/** Tasks as an iCalendar file, one entry per task on its due date. */
+export function buildIcs(
+  entries: IcsEntry[],
+  options: { type: IcsEntryType; calendarName: string }
+): string;
@@ -0,0 +1,114 @@
+// RFC 5545 iCalendar output for task due dates, shared by the client's
+// export (src/lib/ical.ts) and the mock API's subscription feed. Plain
+// JavaScript so Node can run it as-is; types are in ical.d.ts. Callers work
+// out each task's status from its project's workflow, since the two sides
+// resolve workflows differently.
+
+const escapeText = (value) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const encoder = new TextEncoder();
+
+// Content lines are limited to 75 octets; longer ones continue on the next
+// line after a leading space. Multi-byte characters are never split.
+const fold = (line) => {
+  let folded = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      folded += "\r\n ";
+      octets = 1;
+    }
+    folded += char;
+    octets += size;
+  }
+  return folded;
+};
+
+const dateValue = (key) => key.replace(/-/g, "");
+
+const timestamp = (iso) =>
+  new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// All-day events end on the day after, exclusive.
+const nextDay = (key) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1))
+    .toISOString()
+    .slice(0, 10);
+};
+
+const icsPriority = { high: 1, medium: 5, low: 9 };
+
+// Stable UIDs let re-imports and feed refreshes update entries in place.
+const uid = (taskId) => `${taskId}@promanage`;
+
+const entryLines = ({ task, projectName, done, started }, type, stamp) => {
+  const start =
+    task.startDate && task.startDate < task.dueDate ? task.startDate : null;
+  const lines = [
+    `UID:${uid(task.id)}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${timestamp(task.createdAt)}`,
+    `SUMMARY:${escapeText(type === "event" && done ? `✓ ${task.title}` : task.title)}`,
+  ];
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  }
+  if (projectName) lines.push(`CATEGORIES:${escapeText(projectName)}`);
+  if (task.parentId) lines.push(`RELATED-TO:${uid(task.parentId)}`);
+
+  if (type === "event") {
+    return [
+      "BEGIN:VEVENT",
+      ...lines,
+      `DTSTART;VALUE=DATE:${dateValue(start ?? task.dueDate)}`,
+      `DTEND;VALUE=DATE:${dateValue(nextDay(task.dueDate))}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  }
+
+  const completedAt = done
+    ? [...(task.statusHistory ?? [])]
+        .reverse()
+        .find((c) => c.status === task.status)?.at
+    : undefined;
+  return [
+    "BEGIN:VTODO",
+    ...lines,
+    ...(start ? [`DTSTART;VALUE=DATE:${dateValue(start)}`] : []),
+    `DUE;VALUE=DATE:${dateValue(task.dueDate)}`,
+    `PRIORITY:${icsPriority[task.priority] ?? 5}`,
+    `STATUS:${done ? "COMPLETED" : started ? "IN-PROCESS" : "NEEDS-ACTION"}`,
+    ...(done
+      ? [
+          "PERCENT-COMPLETE:100",
+          ...(completedAt ? [`COMPLETED:${timestamp(completedAt)}`] : []),
+        ]
+      : []),
+    "END:VTODO",
+  ];
+};
+
+export const buildIcs = (entries, { type, calendarName }) => {
+  const stamp = timestamp(new Date().toISOString());
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//ProManage//Tasks//EN",
+      "CALSCALE:GREGORIAN",
+      `X-WR-CALNAME:${escapeText(calendarName)}`,
+      ...entries.flatMap((entry) => entryLines(entry, type, stamp)),
+      "END:VCALENDAR",
+    ]
+      .map(fold)
+      .join("\r\n") + "\r\n"
+  );
+};
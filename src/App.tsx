@@ -1,7 +1,7 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { MainLayout } from "./components/layout/MainLayout";
 import Index from "./pages/Index";
@@ -11,10 +11,15 @@ import Dashboard from "./pages/Dashboard";
 import Projects from "./pages/Projects";
 import ProjectDetail from "./pages/ProjectDetail";
 import Tasks from "./pages/Tasks";
+import TaskDetail, { TaskOverlay } from "./pages/TaskDetail";
+import CalendarPage from "./pages/Calendar";
+import Timeline from "./pages/Timeline";
+import Analytics from "./pages/Analytics";
+import Activity from "./pages/Activity";
+import Trash from "./pages/Trash";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
-
-const queryClient = new QueryClient();
+import { queryClient } from "./lib/queryClient";
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -29,8 +34,16 @@ const App = () => (
           <Route element={<MainLayout />}>
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/projects" element={<Projects />} />
-            <Route path="/projects/:id" element={<ProjectDetail />} />
+            <Route path="/projects/:id" element={<ProjectDetail />}>
+              <Route path="tasks/:taskId" element={<TaskOverlay />} />
+            </Route>
             <Route path="/tasks" element={<Tasks />} />
+            <Route path="/tasks/:taskId" element={<TaskDetail />} />
+            <Route path="/calendar" element={<CalendarPage />} />
+            <Route path="/timeline" element={<Timeline />} />
+            <Route path="/analytics" element={<Analytics />} />
+            <Route path="/activity" element={<Activity />} />
+            <Route path="/trash" element={<Trash />} />
             <Route path="/settings" element={<Settings />} />
           </Route>
           <Route path="*" element={<NotFound />} />
@@ -0,0 +1,214 @@
+import { Link } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArchiveRestore, Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type {
+  ActivityEntry,
+  ChecklistItem,
+  Project,
+  Task,
+} from "@/store/useStore";
+import { findStatus } from "@/lib/workflow";
+import { parseDateKey } from "@/lib/dates";
+import { cn } from "@/lib/utils";
+
+const fieldLabels: Record<string, string> = {
+  title: "title",
+  name: "name",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  dueDate: "due date",
+  startDate: "start date",
+  projectId: "project",
+  parentId: "parent task",
+  checklist: "checklist",
+  blockedBy: "blocked by",
+  color: "color",
+  statuses: "workflow",
+  archivedAt: "state",
+};
+
+const actionIcons = {
+  created: PlusCircle,
+  updated: Pencil,
+  deleted: Trash2,
+  restored: ArchiveRestore,
+};
+
+const describe = (
+  field: string,
+  value: unknown,
+  entry: ActivityEntry,
+  projects: Project[],
+  tasks: Task[]
+): string => {
+  if (
+    field !== "archivedAt" &&
+    (value === null || value === undefined || value === "")
+  ) {
+    return "none";
+  }
+  switch (field) {
+    case "status":
+      return (
+        findStatus(
+          projects.find((p) => p.id === entry.projectId),
+          String(value)
+        )?.name ?? String(value)
+      );
+    case "projectId":
+      return projects.find((p) => p.id === value)?.name ?? "a deleted project";
+    case "parentId":
+      return tasks.find((t) => t.id === value)?.title ?? "a deleted task";
+    case "dueDate":
+    case "startDate":
+      return format(parseDateKey(String(value)), "MMM d, yyyy");
+    case "checklist": {
+      const items = value as ChecklistItem[];
+      return `${items.filter((i) => i.done).length}/${items.length} done`;
+    }
+    case "blockedBy": {
+      const ids = value as string[];
+      return ids.length === 0
+        ? "none"
+        : ids
+            .map((id) => tasks.find((t) => t.id === id)?.title ?? "deleted")
+            .join(", ");
+    }
+    case "archivedAt":
+      return value ? "archived" : "active";
+    case "statuses":
+      return `${(value as unknown[]).length} statuses`;
+    case "description": {
+      const text = String(value);
+      return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+    }
+    default:
+      return String(value);
+  }
+};
+
+interface ActivityListProps {
+  entries: ActivityEntry[];
+  /** Name the entity on each line; off when the list sits on that entity. */
+  showEntity?: boolean;
+  emptyMessage?: string;
+}
+
+/** Activity entries, newest first. */
+export function ActivityList({
+  entries,
+  showEntity = true,
+  emptyMessage = "No activity yet",
+}: ActivityListProps) {
+  const { user } = useStore();
+  const { projects, tasks } = useWorkspace();
+
+  // Compaction can leave an edit that was undone by a later one with no
+  // remaining changes; there's nothing to show for those.
+  const visible = entries
+    .filter((e) => e.action !== "updated" || e.changes.length > 0)
+    .reverse();
+
+  if (visible.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const entityLink = (entry: ActivityEntry) => {
+    const exists =
+      entry.entityType === "task"
+        ? tasks.some((t) => t.id === entry.entityId)
+        : projects.some((p) => p.id === entry.entityId);
+    if (!exists) {
+      return (
+        <span className="font-medium text-muted-foreground line-through">
+          {entry.entityName}
+        </span>
+      );
+    }
+    return (
+      <Link
+        to={
+          entry.entityType === "task"
+            ? `/tasks/${entry.entityId}`
+            : `/projects/${entry.entityId}`
+        }
+        className="font-medium text-foreground hover:underline"
+      >
+        {entry.entityName}
+      </Link>
+    );
+  };
+
+  return (
+    <ol className="relative space-y-4 border-l border-border ml-2">
+      {visible.map((entry) => {
+        const Icon = actionIcons[entry.action];
+        const actor =
+          entry.actorId === user?.id ? "You" : entry.actorName || "Someone";
+        return (
+          <li key={entry.id} className="ml-5">
+            <span
+              className={cn(
+                "absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-card border border-border",
+                entry.action === "deleted" && "text-destructive",
+                (entry.action === "created" || entry.action === "restored") &&
+                  "text-success"
+              )}
+            >
+              <Icon className="h-3 w-3" />
+            </span>
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium text-foreground">{actor}</span>{" "}
+              {entry.action} {showEntity ? "" : "this "}
+              {entry.entityType}
+              {showEntity && <> {entityLink(entry)}</>}
+            </p>
+            {entry.changes.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                {entry.changes.map((change) => (
+                  <li key={change.field}>
+                    Changed {fieldLabels[change.field] ?? change.field}{" "}
+                    {change.field !== "description" && (
+                      <>
+                        from{" "}
+                        <span className="text-foreground">
+                          {describe(
+                            change.field,
+                            change.before,
+                            entry,
+                            projects,
+                            tasks
+                          )}
+                        </span>{" "}
+                      </>
+                    )}
+                    to{" "}
+                    <span className="text-foreground">
+                      {describe(
+                        change.field,
+                        change.after,
+                        entry,
+                        projects,
+                        tasks
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <time
+              dateTime={entry.at}
+              title={format(new Date(entry.at), "MMM d, yyyy 'at' h:mm a")}
+              className="text-xs text-muted-foreground"
+            >
+              {formatDistanceToNow(new Date(entry.at), { addSuffix: true })}
+            </time>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,32 +1,30 @@
-import { useState } from "react";
-import { NavLink, useLocation } from "react-router-dom";
+import { Fragment, useState } from "react";
+import { Link, NavLink, useLocation } from "react-router-dom";
 import { motion } from "framer-motion";
-import {
-  LayoutDashboard,
-  FolderKanban,
-  CheckSquare,
-  Settings,
-  LogOut,
-  ChevronLeft,
-  ChevronRight,
-  Sun,
-  Moon,
-} from "lucide-react";
+import { LogOut, ChevronLeft, ChevronRight, Sun, Moon, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useStore } from "@/store/useStore";
 import { Button } from "@/components/ui/button";
-
-const navItems = [
-  { icon: LayoutDashboard, label: "Dashboard", path: "/dashboard" },
-  { icon: FolderKanban, label: "Projects", path: "/projects" },
-  { icon: CheckSquare, label: "Tasks", path: "/tasks" },
-  { icon: Settings, label: "Settings", path: "/settings" },
-];
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useSavingChanges } from "@/hooks/use-workspace-sync";
+import { filtersFromParams, filtersToParams } from "@/hooks/use-task-filters";
+import { navItems } from "./nav-items";
 
 export function AppSidebar() {
   const [collapsed, setCollapsed] = useState(false);
   const location = useLocation();
   const { user, logout, theme, toggleTheme } = useStore();
+  const { views, deleteView } = useSavedViews();
+  const saving = useSavingChanges();
+
+  // Re-encoding the URL's filters lets a saved view match however the query
+  // string happens to be ordered.
+  const currentQuery =
+    location.pathname === "/tasks"
+      ? filtersToParams(
+          filtersFromParams(new URLSearchParams(location.search))
+        ).toString()
+      : null;
 
   return (
     <motion.aside
@@ -72,19 +70,53 @@ export function AppSidebar() {
               location.pathname.startsWith(item.path));
 
           return (
-            <NavLink
-              key={item.path}
-              to={item.path}
-              className={cn(
-                "flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-200",
-                isActive
-                  ? "bg-primary text-primary-foreground shadow-custom-sm"
-                  : "text-muted-foreground hover:bg-secondary hover:text-foreground"
+            <Fragment key={item.path}>
+              <NavLink
+                to={item.path}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-200",
+                  isActive
+                    ? "bg-primary text-primary-foreground shadow-custom-sm"
+                    : "text-muted-foreground hover:bg-secondary hover:text-foreground"
+                )}
+              >
+                <item.icon className="h-5 w-5 flex-shrink-0" />
+                {!collapsed && <span>{item.label}</span>}
+              </NavLink>
+
+              {/* Saved Views */}
+              {item.path === "/tasks" && !collapsed && views.length > 0 && (
+                <div className="ml-8 space-y-0.5">
+                  {views.map((view) => (
+                    <div
+                      key={view.id}
+                      className="group flex items-center gap-1"
+                    >
+                      <Link
+                        to={`/tasks?${view.query}`}
+                        className={cn(
+                          "flex-1 truncate rounded-md px-3 py-1.5 text-sm transition-colors",
+                          currentQuery === view.query
+                            ? "bg-secondary font-medium text-foreground"
+                            : "text-muted-foreground hover:bg-secondary hover:text-foreground"
+                        )}
+                      >
+                        {view.name}
+                      </Link>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteView(view.id)}
+                        className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                        aria-label={`Delete view "${view.name}"`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
               )}
-            >
-              <item.icon className="h-5 w-5 flex-shrink-0" />
-              {!collapsed && <span>{item.label}</span>}
-            </NavLink>
+            </Fragment>
           );
         })}
       </nav>
@@ -123,8 +155,11 @@ export function AppSidebar() {
           {!collapsed && (
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium truncate">{user?.name}</p>
-              <p className="text-xs text-muted-foreground truncate">
-                {user?.email}
+              <p
+                className="text-xs text-muted-foreground truncate"
+                aria-live="polite"
+              >
+                {saving ? "Saving changes…" : user?.email}
               </p>
             </div>
           )}
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import type { ComponentType } from "react";
+import { useNavigate } from "react-router-dom";
+import { defaultFilter } from "cmdk";
+import {
+  CheckCircle2,
+  Circle,
+  FolderKanban,
+  LogOut,
+  Moon,
+  Plus,
+  Sun,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { StatusChangeDialog } from "@/components/tasks/StatusChangeDialog";
+import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useStatusChange } from "@/hooks/use-status-change";
+import { useRecentCommands } from "@/hooks/use-recent-commands";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { isArchived } from "@/lib/archive";
+import { findStatus, getWorkflow } from "@/lib/workflow";
+import { navItems } from "./nav-items";
+
+type Page = "root" | "new-task" | "complete-task";
+
+// Item values are ids; match on the label and keywords so that typing
+// "task" doesn't bring up every task.
+const matchKeywords = (_value: string, search: string, keywords?: string[]) =>
+  defaultFilter(keywords?.join(" ") ?? "", search);
+
+interface PaletteItem {
+  /** Unique across the palette; also what recents remember. */
+  id: string;
+  label: string;
+  hint?: string;
+  icon: ComponentType<{ className?: string }>;
+  keywords?: string[];
+  /** Leads to a follow-up list instead of closing the palette. */
+  opensPage?: boolean;
+  run: () => void;
+}
+
+/**
+ * Ctrl/Cmd+K search across pages, projects and tasks, plus quick actions.
+ * Whatever was run most recently is listed first when the search is empty.
+ */
+export function CommandPalette() {
+  const navigate = useNavigate();
+  const { theme, toggleTheme, logout, updateTask } = useStore();
+  const { projects, tasks } = useWorkspace();
+  const { recent, remember } = useRecentCommands();
+  const [open, setOpen] = useState(false);
+  const [page, setPage] = useState<Page>("root");
+  const [search, setSearch] = useState("");
+  const statusChange = useStatusChange((taskId, status) => {
+    updateTask(taskId, { status });
+    toast({ title: "Task completed", action: undoAction() });
+  });
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (event.key.toLowerCase() !== "k") return;
+      event.preventDefault();
+      setOpen((current) => !current);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setPage("root");
+      setSearch("");
+    }
+  };
+
+  const showPage = (next: Page) => {
+    setPage(next);
+    setSearch("");
+  };
+
+  const projectName = (projectId: string) =>
+    projects.find((p) => p.id === projectId)?.name ?? "";
+
+  const navigation: PaletteItem[] = navItems.map((item) => ({
+    id: `nav:${item.path}`,
+    label: item.label,
+    hint: "Go to",
+    icon: item.icon,
+    run: () => navigate(item.path),
+  }));
+
+  const projectItems: PaletteItem[] = projects.map((project) => ({
+    id: `project:${project.id}`,
+    label: project.name,
+    hint: isArchived(project) ? "Archived" : undefined,
+    icon: FolderKanban,
+    run: () => navigate(`/projects/${project.id}`),
+  }));
+
+  const taskItems: PaletteItem[] = tasks.map((task) => ({
+    id: `task:${task.id}`,
+    label: task.title,
+    hint: projectName(task.projectId),
+    icon: findStatus(
+      projects.find((p) => p.id === task.projectId),
+      task.status
+    )?.isDone
+      ? CheckCircle2
+      : Circle,
+    keywords: [projectName(task.projectId)],
+    run: () => navigate(`/tasks/${task.id}`),
+  }));
+
+  const actions: PaletteItem[] = [
+    {
+      id: "action:new-task",
+      label: "New task in…",
+      icon: Plus,
+      keywords: ["create", "add"],
+      opensPage: true,
+      run: () => showPage("new-task"),
+    },
+    {
+      id: "action:complete-task",
+      label: "Mark task complete…",
+      icon: CheckCircle2,
+      keywords: ["done", "finish"],
+      opensPage: true,
+      run: () => showPage("complete-task"),
+    },
+    {
+      id: "action:toggle-theme",
+      label: theme === "light" ? "Switch to dark mode" : "Switch to light mode",
+      icon: theme === "light" ? Moon : Sun,
+      keywords: ["theme", "toggle"],
+      run: toggleTheme,
+    },
+    {
+      id: "action:logout",
+      label: "Log out",
+      icon: LogOut,
+      keywords: ["sign out"],
+      run: logout,
+    },
+  ];
+
+  const allItems = [...navigation, ...projectItems, ...taskItems, ...actions];
+  const recentItems = recent.flatMap(
+    (id) => allItems.find((item) => item.id === id) ?? []
+  );
+  // Recents sit above everything else until the user starts typing.
+  const showRecent = search === "" && recentItems.length > 0;
+  const notRecent = (items: PaletteItem[]) =>
+    showRecent ? items.filter((item) => !recent.includes(item.id)) : items;
+
+  // Only top-level picks are remembered; follow-up lists are too specific.
+  const runItem = (item: PaletteItem) => {
+    if (page === "root") remember(item.id);
+    if (!item.opensPage) handleOpenChange(false);
+    item.run();
+  };
+
+  const renderItem = (item: PaletteItem) => (
+    <CommandItem
+      key={item.id}
+      value={item.id}
+      keywords={[item.label, ...(item.keywords ?? [])]}
+      onSelect={() => runItem(item)}
+    >
+      <item.icon className="text-muted-foreground" />
+      <span className="truncate">{item.label}</span>
+      {item.hint && <CommandShortcut>{item.hint}</CommandShortcut>}
+    </CommandItem>
+  );
+
+  const renderGroup = (heading: string, items: PaletteItem[]) =>
+    items.length > 0 && (
+      <CommandGroup heading={heading}>
+        {items.map((item) => renderItem(item))}
+      </CommandGroup>
+    );
+
+  // New tasks need a project that still takes changes.
+  const openProjects = projects.filter((p) => !isArchived(p));
+  const completable = tasks.flatMap((task) => {
+    const project = openProjects.find((p) => p.id === task.projectId);
+    if (!project || findStatus(project, task.status)?.isDone) return [];
+    const done = getWorkflow(project).find((status) => status.isDone);
+    return done ? [{ task, done }] : [];
+  });
+
+  return (
+    <>
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        title="Command Palette"
+        description="Search projects and tasks, or run a command."
+        filter={matchKeywords}
+      >
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder={
+            page === "new-task"
+              ? "Add a task to which project?"
+              : page === "complete-task"
+                ? "Complete which task?"
+                : "Search projects, tasks and commands…"
+          }
+          onKeyDown={(event) => {
+            if (event.key === "Backspace" && search === "" && page !== "root") {
+              event.preventDefault();
+              setPage("root");
+            }
+          }}
+        />
+        <CommandList>
+          <CommandEmpty>No results found.</CommandEmpty>
+
+          {page === "root" && (
+            <>
+              {showRecent && renderGroup("Recent", recentItems)}
+              {renderGroup("Navigation", notRecent(navigation))}
+              {renderGroup("Projects", notRecent(projectItems))}
+              {renderGroup("Tasks", notRecent(taskItems))}
+              {renderGroup("Actions", notRecent(actions))}
+            </>
+          )}
+
+          {page === "new-task" && (
+            <CommandGroup heading="New task in">
+              {openProjects.map((project) =>
+                renderItem({
+                  id: `project:${project.id}`,
+                  label: project.name,
+                  icon: FolderKanban,
+                  run: () =>
+                    navigate(`/projects/${project.id}`, {
+                      state: { newTask: true },
+                    }),
+                })
+              )}
+            </CommandGroup>
+          )}
+
+          {page === "complete-task" && (
+            <CommandGroup heading="Mark complete">
+              {completable.map(({ task, done }) =>
+                renderItem({
+                  id: `task:${task.id}`,
+                  label: task.title,
+                  hint: projectName(task.projectId),
+                  icon: Circle,
+                  keywords: [projectName(task.projectId)],
+                  run: () => statusChange.requestStatusChange(task, done.id),
+                })
+              )}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+
+      <StatusChangeDialog
+        pending={statusChange.pending}
+        onConfirm={statusChange.confirm}
+        onCancel={statusChange.cancel}
+      />
+    </>
+  );
+}
@@ -2,12 +2,27 @@ import { useEffect, useState } from "react";
 import { Outlet, useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import { AppSidebar } from "./AppSidebar";
+import { CommandPalette } from "./CommandPalette";
+import { ShortcutHelp } from "@/components/shortcuts/ShortcutHelp";
 import { useStore } from "@/store/useStore";
+import { useWorkspaceSync } from "@/hooks/use-workspace-sync";
+import { useUndoShortcuts } from "@/hooks/use-undo";
+import { useTrashPurge } from "@/hooks/use-trash-purge";
+import { useShortcut, useShortcutListener } from "@/hooks/use-shortcuts";
 
 export function MainLayout() {
   const { user } = useStore();
   const navigate = useNavigate();
   const [sidebarWidth] = useState(280);
+  useWorkspaceSync();
+  useUndoShortcuts();
+  useTrashPurge();
+  useShortcutListener();
+  useShortcut("go-dashboard", () => navigate("/dashboard"));
+  useShortcut("go-projects", () => navigate("/projects"));
+  useShortcut("go-tasks", () => navigate("/tasks"));
+  useShortcut("go-calendar", () => navigate("/calendar"));
+  useShortcut("go-settings", () => navigate("/settings"));
 
   useEffect(() => {
     if (!user) {
@@ -31,6 +46,8 @@ export function MainLayout() {
           <Outlet />
         </div>
       </motion.main>
+      <CommandPalette />
+      <ShortcutHelp />
     </div>
   );
 }
@@ -0,0 +1,24 @@
+import {
+  LayoutDashboard,
+  FolderKanban,
+  CheckSquare,
+  CalendarDays,
+  GanttChart,
+  BarChart3,
+  History,
+  Trash2,
+  Settings,
+} from "lucide-react";
+
+/** The app's top-level pages, shared by the sidebar and command palette. */
+export const navItems = [
+  { icon: LayoutDashboard, label: "Dashboard", path: "/dashboard" },
+  { icon: FolderKanban, label: "Projects", path: "/projects" },
+  { icon: CheckSquare, label: "Tasks", path: "/tasks" },
+  { icon: CalendarDays, label: "Calendar", path: "/calendar" },
+  { icon: GanttChart, label: "Timeline", path: "/timeline" },
+  { icon: BarChart3, label: "Analytics", path: "/analytics" },
+  { icon: History, label: "Activity", path: "/activity" },
+  { icon: Trash2, label: "Trash", path: "/trash" },
+  { icon: Settings, label: "Settings", path: "/settings" },
+];
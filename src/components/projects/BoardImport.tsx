@@ -0,0 +1,261 @@
+import { useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { AlertCircle, FileUp, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useStore } from "@/store/useStore";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { projectColors } from "@/lib/forms";
+import { toDateKey } from "@/lib/dates";
+import { importSources, summarizeBoard, writeBoard } from "@/lib/importers";
+import type { ImportedBoard, ImportSource } from "@/lib/importers";
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Import button and dialog for bringing boards over from Trello, Jira or
+ * Asana. The file is read into a dry run first; nothing is written until
+ * the summary has been confirmed.
+ */
+export function BoardImport() {
+  const { addProject, addTask, batch } = useStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource>("trello");
+  const [error, setError] = useState<string | null>(null);
+  const [board, setBoard] = useState<ImportedBoard | null>(null);
+
+  const openDialog = () => {
+    setError(null);
+    setBoard(null);
+    setOpen(true);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so picking the same file again still fires.
+    event.target.value = "";
+    if (!file) return;
+    const result = importSources[source].parse(await file.text());
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setBoard(result.board);
+  };
+
+  const handleImport = () => {
+    if (!board) return;
+    const { label } = importSources[source];
+    batch(`Import from ${label}`, () =>
+      writeBoard(
+        board,
+        { addProject, addTask },
+        {
+          color: (index) => projectColors[index % projectColors.length],
+          fallbackDueDate: toDateKey(new Date()),
+        }
+      )
+    );
+    const summary = summarizeBoard(board);
+    toast({
+      title: `Imported from ${label}`,
+      description: `${plural(summary.projects, "project")} and ${plural(summary.tasks, "task")} added.`,
+      action: undoAction(),
+    });
+    setOpen(false);
+  };
+
+  const summary = board && summarizeBoard(board);
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog}>
+        <Upload className="h-5 w-5" />
+        Import
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {board
+                ? `Import from ${importSources[source].label}`
+                : "Import Projects"}
+            </DialogTitle>
+            <DialogDescription>
+              {board
+                ? "Here's what will be created. Nothing is imported until you confirm."
+                : "Bring boards and their tasks over from another tool."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!board && (
+            <div className="space-y-4">
+              <RadioGroup
+                value={source}
+                onValueChange={(value) => {
+                  setSource(value as ImportSource);
+                  setError(null);
+                }}
+                className="gap-3"
+              >
+                {(Object.keys(importSources) as ImportSource[]).map((key) => (
+                  <Label
+                    key={key}
+                    htmlFor={`source-${key}`}
+                    className="flex items-start gap-3 rounded-lg border border-border p-3 font-normal cursor-pointer"
+                  >
+                    <RadioGroupItem
+                      id={`source-${key}`}
+                      value={key}
+                      className="mt-0.5"
+                    />
+                    <span className="space-y-0.5">
+                      <span className="block font-medium">
+                        {importSources[key].label}
+                      </span>
+                      <span className="block text-sm text-muted-foreground">
+                        {importSources[key].hint}
+                      </span>
+                    </span>
+                  </Label>
+                ))}
+              </RadioGroup>
+              <input
+                ref={fileInput}
+                type="file"
+                accept={importSources[source].accept}
+                className="hidden"
+                onChange={handleFile}
+              />
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle />
+                  <AlertTitle>Couldn't read the file</AlertTitle>
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          {board && summary && (
+            <div className="space-y-3 text-sm">
+              <div className="rounded-lg bg-secondary/50 p-3 space-y-1">
+                <p>
+                  {plural(summary.projects, "project")},{" "}
+                  {plural(summary.tasks, "task")}
+                  {summary.subtasks > 0 &&
+                    ` (${plural(summary.subtasks, "subtask")})`}
+                  {summary.checklistItems > 0 &&
+                    `, ${plural(summary.checklistItems, "checklist item")}`}
+                </p>
+                {summary.missingDueDates > 0 && (
+                  <p className="text-muted-foreground">
+                    {plural(summary.missingDueDates, "task")} without a due date
+                    will be due today.
+                  </p>
+                )}
+                {board.skipped.map((note) => (
+                  <p key={note} className="text-muted-foreground">
+                    Skipped: {note}
+                  </p>
+                ))}
+              </div>
+
+              <ul className="max-h-48 overflow-y-auto space-y-2">
+                {board.projects.map((project) => (
+                  <li
+                    key={project.name}
+                    className="rounded-lg border border-border p-3 space-y-2"
+                  >
+                    <p className="font-medium">
+                      {project.name}{" "}
+                      <span className="font-normal text-muted-foreground">
+                        · {plural(project.tasks.length, "task")}
+                      </span>
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {project.statuses.map((status) => (
+                        <Badge key={status.id} variant="secondary">
+                          {status.name}
+                          {status.isDone && " ✓"}
+                        </Badge>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {board.issues.length > 0 && (
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    Adjusted to fit ({plural(board.issues.length, "item")})
+                  </p>
+                  <ul className="max-h-32 overflow-y-auto space-y-1 text-muted-foreground">
+                    {board.issues.map(({ item, problem }, index) => (
+                      <li key={index}>
+                        {item}: {problem}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {board.unmapped.length > 0 && (
+                <div className="space-y-1">
+                  <p className="font-medium">Not imported</p>
+                  <p className="text-muted-foreground">
+                    {board.unmapped
+                      .map(
+                        ({ field, count }) =>
+                          `${field} (${plural(count, "item")})`
+                      )
+                      .join(", ")}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {board ? (
+              <>
+                <Button variant="outline" onClick={() => setBoard(null)}>
+                  Back
+                </Button>
+                <Button onClick={handleImport}>
+                  Import {plural(summary?.projects ?? 0, "Project")}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={() => fileInput.current?.click()}>
+                  <FileUp className="h-4 w-4" />
+                  Choose File
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useStore } from "@/store/useStore";
+import type { Project, WorkflowStatus } from "@/store/useStore";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { generateId } from "@/lib/utils";
+import { getWorkflow, statusColors } from "@/lib/workflow";
+
+interface WorkflowDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WorkflowDialog({
+  project,
+  open,
+  onOpenChange,
+}: WorkflowDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Workflow</DialogTitle>
+          <DialogDescription>
+            Statuses tasks in {project.name} move through, in board order.
+          </DialogDescription>
+        </DialogHeader>
+        <WorkflowForm project={project} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Mounted only while the dialog is open, so every opening starts from the
+// project's saved workflow.
+function WorkflowForm({
+  project,
+  onDone,
+}: {
+  project: Project;
+  onDone: () => void;
+}) {
+  const { tasks, updateProject } = useStore();
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(() =>
+    getWorkflow(project)
+  );
+
+  const inUse = new Set(
+    tasks.filter((t) => t.projectId === project.id).map((t) => t.status)
+  );
+
+  const update = (id: string, changes: Partial<WorkflowStatus>) =>
+    setStatuses((current) =>
+      current.map((s) => (s.id === id ? { ...s, ...changes } : s))
+    );
+
+  const move = (index: number, offset: number) =>
+    setStatuses((current) => {
+      const next = [...current];
+      const [status] = next.splice(index, 1);
+      next.splice(index + offset, 0, status);
+      return next;
+    });
+
+  const addStatus = () =>
+    setStatuses((current) => [
+      ...current,
+      {
+        id: generateId(),
+        name: "",
+        color: statusColors[current.length % statusColors.length],
+        isDone: false,
+      },
+    ]);
+
+  const save = () => {
+    if (statuses.some((s) => !s.name.trim())) {
+      toast({
+        title: "Every status needs a name",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateProject(project.id, {
+      statuses: statuses.map((s) => ({ ...s, name: s.name.trim() })),
+    });
+    toast({ title: "Workflow updated", action: undoAction() });
+    onDone();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {statuses.map((status, index) => (
+          <div key={status.id} className="flex items-center gap-2">
+            <button
+              type="button"
+              aria-label="Change color"
+              onClick={() =>
+                update(status.id, {
+                  color:
+                    statusColors[
+                      (statusColors.indexOf(status.color) + 1) %
+                        statusColors.length
+                    ],
+                })
+              }
+              className="h-6 w-6 shrink-0 rounded-full transition-transform hover:scale-110"
+              style={{ backgroundColor: status.color }}
+            />
+            <Input
+              value={status.name}
+              placeholder="Status name"
+              maxLength={30}
+              onChange={(e) => update(status.id, { name: e.target.value })}
+            />
+            <div className="flex items-center gap-1.5 shrink-0">
+              <Switch
+                id={`done-${status.id}`}
+                checked={status.isDone}
+                onCheckedChange={(isDone) => update(status.id, { isDone })}
+              />
+              <Label
+                htmlFor={`done-${status.id}`}
+                className="text-xs text-muted-foreground"
+              >
+                Done
+              </Label>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              disabled={index === statuses.length - 1}
+              onClick={() => move(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+              disabled={statuses.length === 1 || inUse.has(status.id)}
+              title={
+                inUse.has(status.id)
+                  ? "Move this status's tasks elsewhere first"
+                  : undefined
+              }
+              onClick={() =>
+                setStatuses((current) =>
+                  current.filter((s) => s.id !== status.id)
+                )
+              }
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button type="button" variant="outline" size="sm" onClick={addStatus}>
+        <Plus className="h-4 w-4" />
+        Add Status
+      </Button>
+
+      <div className="flex gap-3 pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1"
+          onClick={onDone}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          variant="gradient"
+          className="flex-1"
+          onClick={save}
+        >
+          Save Workflow
+        </Button>
+      </div>
+    </div>
+  );
+}
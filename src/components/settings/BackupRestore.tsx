@@ -0,0 +1,257 @@
+import { useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { format } from "date-fns";
+import { AlertCircle, DatabaseBackup, Download, Upload } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useStore } from "@/store/useStore";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { createBackup, parseBackup, previewImport } from "@/lib/backup";
+import type { Backup, ImportMode } from "@/lib/backup";
+import { downloadFile } from "@/lib/download";
+
+const importModes: { value: ImportMode; label: string; hint: string }[] = [
+  {
+    value: "merge",
+    label: "Merge",
+    hint: "Add what's new and update items that exist in both; keep everything else.",
+  },
+  {
+    value: "replace",
+    label: "Replace",
+    hint: "Make the workspace exactly match the backup; items not in it are removed.",
+  },
+];
+
+const describeCounts = (counts: {
+  added: number;
+  updated: number;
+  removed: number;
+}) =>
+  [
+    counts.added > 0 && `${counts.added} new`,
+    counts.updated > 0 && `${counts.updated} updated`,
+    counts.removed > 0 && `${counts.removed} removed`,
+  ]
+    .filter(Boolean)
+    .join(", ") || "no changes";
+
+/** Settings card for exporting the workspace to a file and restoring it. */
+export function BackupRestore() {
+  const {
+    user,
+    projects,
+    tasks,
+    activity,
+    theme,
+    trashRetentionDays,
+    importWorkspace,
+    setTheme,
+    setTrashRetention,
+  } = useStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<Backup | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+
+  const handleExport = () => {
+    downloadFile(
+      `promanage-backup-${format(new Date(), "yyyy-MM-dd")}.json`,
+      createBackup({ projects, tasks, activity }, user, {
+        theme,
+        trashRetentionDays,
+      }),
+      "application/json"
+    );
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so picking the same file again still fires.
+    event.target.value = "";
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setMode("merge");
+    setPending(result.backup);
+  };
+
+  const handleImport = () => {
+    if (!pending) return;
+    importWorkspace(pending.workspace, mode);
+    if (pending.settings.theme) setTheme(pending.settings.theme);
+    if (pending.settings.trashRetentionDays !== undefined) {
+      setTrashRetention(pending.settings.trashRetentionDays);
+    }
+    toast({
+      title: "Backup imported",
+      description:
+        mode === "merge"
+          ? "The backup was merged into your workspace."
+          : "Your workspace now matches the backup.",
+      action: undoAction(),
+    });
+    setPending(null);
+  };
+
+  const preview = pending
+    ? previewImport({ projects, tasks }, pending.workspace, mode)
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DatabaseBackup className="h-5 w-5 text-primary" />
+          Backup & Restore
+        </CardTitle>
+        <CardDescription>
+          Keep a copy of your workspace outside the browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label className="text-base">Export Backup</Label>
+            <p className="text-sm text-muted-foreground">
+              Projects, tasks, activity and settings as a JSON file
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </div>
+        <Separator />
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label className="text-base">Import Backup</Label>
+            <p className="text-sm text-muted-foreground">
+              Restore from a file exported here; you'll see what changes first
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle />
+            <AlertTitle>Couldn't import backup</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pending} onOpenChange={() => setPending(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Backup</DialogTitle>
+            {pending && (
+              <DialogDescription>
+                Exported{" "}
+                {format(
+                  new Date(pending.exportedAt),
+                  "MMM d, yyyy 'at' h:mm a"
+                )}
+                {pending.exportedBy && ` by ${pending.exportedBy.name}`}. It
+                contains {pending.workspace.projects.length} projects,{" "}
+                {pending.workspace.tasks.length} tasks and{" "}
+                {pending.workspace.activity.length} activity entries.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          <RadioGroup
+            value={mode}
+            onValueChange={(value) => setMode(value as ImportMode)}
+            className="gap-3"
+          >
+            {importModes.map((option) => (
+              <Label
+                key={option.value}
+                htmlFor={`import-${option.value}`}
+                className="flex items-start gap-3 rounded-lg border border-border p-3 font-normal cursor-pointer"
+              >
+                <RadioGroupItem
+                  id={`import-${option.value}`}
+                  value={option.value}
+                  className="mt-0.5"
+                />
+                <span className="space-y-0.5">
+                  <span className="block font-medium">{option.label}</span>
+                  <span className="block text-sm text-muted-foreground">
+                    {option.hint}
+                  </span>
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+
+          {preview && (
+            <div className="rounded-lg bg-secondary/50 p-3 text-sm space-y-1">
+              <p>
+                <span className="font-medium">Projects:</span>{" "}
+                {describeCounts(preview.projects)}
+              </p>
+              <p>
+                <span className="font-medium">Tasks:</span>{" "}
+                {describeCounts(preview.tasks)}
+              </p>
+              <p className="text-muted-foreground">
+                Activity from the backup is added to your history either way.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={mode === "replace" ? "destructive" : "default"}
+              onClick={handleImport}
+            >
+              {mode === "replace" ? "Replace Workspace" : "Merge Backup"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
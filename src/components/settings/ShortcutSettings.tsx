@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from "react";
+import { Keyboard, RotateCcw } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { ShortcutKeys } from "@/components/shortcuts/ShortcutKeys";
+import { useStore } from "@/store/useStore";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+import { toast } from "@/hooks/use-toast";
+import {
+  MAX_SEQUENCE_LENGTH,
+  SEQUENCE_TIMEOUT_MS,
+  findConflicts,
+  getShortcut,
+  isBindableKey,
+  normalizeKey,
+  shortcutDefinitions,
+  shortcutScopes,
+} from "@/lib/shortcuts";
+import type { ShortcutId, ShortcutScope } from "@/lib/shortcuts";
+
+/**
+ * Lists every shortcut with its keys and lets the user record new ones.
+ * Keys that would clash with another shortcut active at the same time are
+ * refused.
+ */
+export function ShortcutSettings() {
+  const { shortcutBindings, setShortcutBinding, resetShortcutBindings } =
+    useStore();
+  const bindings = useShortcutBindings();
+  const [recording, setRecording] = useState<ShortcutId | null>(null);
+  const [captured, setCaptured] = useState<string[]>([]);
+
+  const startRecording = (id: ShortcutId) => {
+    setCaptured([]);
+    setRecording(id);
+  };
+
+  const applyBinding = useCallback(
+    (id: ShortcutId, keys: string) => {
+      const conflicts = findConflicts(id, keys, bindings);
+      if (conflicts.length > 0) {
+        toast({
+          title: "Shortcut not changed",
+          description: `${keys.split(" ").join(" then ")} is already used by ${conflicts
+            .map((other) => `"${getShortcut(other).label}"`)
+            .join(", ")}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setShortcutBinding(id, keys === getShortcut(id).keys ? null : keys);
+    },
+    [bindings, setShortcutBinding]
+  );
+
+  useEffect(() => {
+    if (!recording) return;
+    let keys: string[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      clearTimeout(timer);
+      setRecording(null);
+      applyBinding(recording, keys.join(" "));
+    };
+
+    // Capturing first keeps the keys from also triggering shortcuts.
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === "Escape") {
+        clearTimeout(timer);
+        setRecording(null);
+        return;
+      }
+      if (!isBindableKey(event)) return;
+      keys = [...keys, normalizeKey(event.key)];
+      setCaptured(keys);
+      clearTimeout(timer);
+      if (keys.length >= MAX_SEQUENCE_LENGTH) {
+        finish();
+      } else {
+        timer = setTimeout(finish, SEQUENCE_TIMEOUT_MS);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown, true);
+      clearTimeout(timer);
+    };
+  }, [recording, applyBinding]);
+
+  const scopes = Object.keys(shortcutScopes) as ShortcutScope[];
+  const hasChanges = Object.keys(shortcutBindings).length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="h-5 w-5 text-primary" />
+          Keyboard Shortcuts
+        </CardTitle>
+        <CardDescription>
+          Press <ShortcutKeys keys={bindings.help} /> on any page to see the
+          shortcuts that work there
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {scopes.map((scope, index) => (
+          <div key={scope} className="space-y-3">
+            {index > 0 && <Separator />}
+            <h3 className="text-sm font-semibold text-foreground">
+              {shortcutScopes[scope]}
+            </h3>
+            {shortcutDefinitions
+              .filter((shortcut) => shortcut.scope === scope)
+              .map((shortcut) => {
+                const isRecording = recording === shortcut.id;
+                const isChanged = shortcut.id in shortcutBindings;
+                const conflicts = findConflicts(
+                  shortcut.id,
+                  bindings[shortcut.id],
+                  bindings
+                );
+                return (
+                  <div
+                    key={shortcut.id}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <div className="space-y-0.5 min-w-0">
+                      <p className="text-sm">{shortcut.label}</p>
+                      {conflicts.length > 0 && (
+                        <p className="text-xs text-destructive">
+                          Clashes with "{getShortcut(conflicts[0]).label}"
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {isRecording ? (
+                        <span className="text-sm text-muted-foreground">
+                          {captured.length > 0 ? (
+                            <ShortcutKeys keys={captured.join(" ")} />
+                          ) : (
+                            "Press keys… (Esc to cancel)"
+                          )}
+                        </span>
+                      ) : (
+                        <ShortcutKeys keys={bindings[shortcut.id]} />
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isRecording}
+                        onClick={() => startRecording(shortcut.id)}
+                      >
+                        Change
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={!isChanged || isRecording}
+                        onClick={() =>
+                          applyBinding(
+                            shortcut.id,
+                            getShortcut(shortcut.id).keys
+                          )
+                        }
+                        aria-label={`Reset "${shortcut.label}"`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!hasChanges}
+          onClick={resetShortcutBindings}
+        >
+          Reset All to Defaults
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useActiveShortcuts,
+  useShortcut,
+  useShortcutBindings,
+} from "@/hooks/use-shortcuts";
+import { getShortcut, modKeyLabel, shortcutScopes } from "@/lib/shortcuts";
+import type { ShortcutScope } from "@/lib/shortcuts";
+import { Kbd, ShortcutKeys } from "./ShortcutKeys";
+
+// Handled outside the registry and not rebindable, but worth knowing.
+const fixedShortcuts = [
+  { keys: [modKeyLabel, "K"], label: "Open the command palette" },
+  { keys: [modKeyLabel, "Z"], label: "Undo" },
+  { keys: [modKeyLabel, "Shift", "Z"], label: "Redo" },
+];
+
+/** The "?" cheat sheet: every shortcut that works on the current page. */
+export function ShortcutHelp() {
+  const [open, setOpen] = useState(false);
+  const active = useActiveShortcuts();
+  const bindings = useShortcutBindings();
+  useShortcut("help", () => setOpen(true));
+
+  const groups = (Object.keys(shortcutScopes) as ShortcutScope[])
+    .map((scope) => ({
+      scope,
+      shortcuts: active
+        .map(getShortcut)
+        .filter((shortcut) => shortcut.scope === scope),
+    }))
+    .filter((group) => group.shortcuts.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts for this page. Keys can be changed in{" "}
+            <Link
+              to="/settings"
+              onClick={() => setOpen(false)}
+              className="text-primary hover:underline"
+            >
+              Settings
+            </Link>
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-5">
+          {groups.map(({ scope, shortcuts }) => (
+            <section key={scope} className="space-y-2">
+              <h3 className="text-sm font-semibold text-foreground">
+                {shortcutScopes[scope]}
+              </h3>
+              <ul className="space-y-1.5">
+                {shortcuts.map((shortcut) => (
+                  <li
+                    key={shortcut.id}
+                    className="flex items-center justify-between gap-4 text-sm"
+                  >
+                    <span className="text-muted-foreground">
+                      {shortcut.label}
+                    </span>
+                    <ShortcutKeys keys={bindings[shortcut.id]} />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">
+              With {modKeyLabel}
+            </h3>
+            <ul className="space-y-1.5">
+              {fixedShortcuts.map((shortcut) => (
+                <li
+                  key={shortcut.label}
+                  className="flex items-center justify-between gap-4 text-sm"
+                >
+                  <span className="text-muted-foreground">
+                    {shortcut.label}
+                  </span>
+                  <span className="inline-flex items-center gap-1">
+                    {shortcut.keys.map((key) => (
+                      <Kbd key={key}>{key}</Kbd>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
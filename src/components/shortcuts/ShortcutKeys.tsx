@@ -0,0 +1,33 @@
+import { Fragment } from "react";
+import type { ComponentProps } from "react";
+import { cn } from "@/lib/utils";
+import { keyCaps } from "@/lib/shortcuts";
+
+/** A single key cap. */
+export function Kbd({ className, ...props }: ComponentProps<"kbd">) {
+  return (
+    <kbd
+      className={cn(
+        "inline-flex h-6 min-w-6 items-center justify-center rounded border border-border bg-muted px-1.5 font-mono text-xs text-muted-foreground",
+        className
+      )}
+      {...props}
+    />
+  );
+}
+
+/** A shortcut's key sequence, e.g. "g p" as G then P. */
+export function ShortcutKeys({ keys }: { keys: string }) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      {keyCaps(keys).map((key, index) => (
+        <Fragment key={index}>
+          {index > 0 && (
+            <span className="text-xs text-muted-foreground">then</span>
+          )}
+          <Kbd>{key}</Kbd>
+        </Fragment>
+      ))}
+    </span>
+  );
+}
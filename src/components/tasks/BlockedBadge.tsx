@@ -0,0 +1,29 @@
+import { Lock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { Task } from "@/store/useStore";
+import { getOpenBlockers } from "@/lib/dependencies";
+import { cn } from "@/lib/utils";
+
+interface BlockedBadgeProps {
+  task: Task;
+  className?: string;
+}
+
+/** Shown while any task this one depends on is still open. */
+export function BlockedBadge({ task, className }: BlockedBadgeProps) {
+  const { tasks, projects } = useWorkspace();
+  const blockers = getOpenBlockers(task, tasks, projects);
+  if (blockers.length === 0) return null;
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn("bg-destructive/20 text-destructive", className)}
+      title={`Waiting on ${blockers.map((t) => t.title).join(", ")}`}
+    >
+      <Lock className="h-3 w-3 mr-1" />
+      Blocked
+    </Badge>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { format } from "date-fns";
+import { CalendarDays, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useStore } from "@/store/useStore";
+import type { Task, TaskUpdate } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { isArchived } from "@/lib/archive";
+import { parseDateKey } from "@/lib/dates";
+import { mergeWorkflows } from "@/lib/workflow";
+import {
+  getBulkStatusWarnings,
+  planFieldChange,
+  planProjectMove,
+  planStatusChange,
+} from "@/lib/bulkEdit";
+
+const countTasks = (count: number) => `${count} task${count === 1 ? "" : "s"}`;
+
+interface PendingBulkStatus {
+  statusName: string;
+  updates: TaskUpdate[];
+  description: string;
+  flagged: { id: string; title: string; warnings: string[] }[];
+}
+
+interface BulkActionBarProps {
+  selected: Task[];
+  onClear: () => void;
+}
+
+/**
+ * Floating bar for changing every selected task at once. Each action is a
+ * single store change, so it saves once and undoes in one step.
+ */
+export function BulkActionBar({ selected, onClear }: BulkActionBarProps) {
+  const { updateTasks, deleteTasks } = useStore();
+  const { projects, tasks } = useWorkspace();
+  const [dueDate, setDueDate] = useState("");
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [pendingStatus, setPendingStatus] = useState<PendingBulkStatus | null>(
+    null
+  );
+
+  const selectedProjects = projects.filter((p) =>
+    selected.some((t) => t.projectId === p.id)
+  );
+  const statuses = mergeWorkflows(selectedProjects);
+  const moveTargets = projects.filter(
+    (p) => !isArchived(p) && selected.some((t) => t.projectId !== p.id)
+  );
+
+  const apply = (updates: TaskUpdate[], description: string) => {
+    if (updates.length === 0) {
+      toast({ title: "Nothing to change", description });
+      return;
+    }
+    updateTasks(updates);
+    toast({
+      title: `${countTasks(updates.length)} updated`,
+      description,
+      action: undoAction(),
+    });
+  };
+
+  const handleStatus = (status: string) => {
+    const { updates, skipped } = planStatusChange(selected, projects, status);
+    const name = statuses.find((s) => s.id === status)?.name ?? status;
+    const description =
+      skipped > 0
+        ? `Moved to ${name}; ${countTasks(skipped)} skipped because their project has no such status.`
+        : `Moved to ${name}.`;
+    // The same checks as a single status change, confirmed all at once.
+    const flagged = getBulkStatusWarnings(updates, tasks, projects);
+    if (flagged.length > 0) {
+      setPendingStatus({ statusName: name, updates, description, flagged });
+      return;
+    }
+    apply(updates, description);
+  };
+
+  const confirmStatus = () => {
+    if (pendingStatus) {
+      apply(pendingStatus.updates, pendingStatus.description);
+    }
+    setPendingStatus(null);
+  };
+
+  const handlePriority = (priority: Task["priority"]) =>
+    apply(
+      planFieldChange(selected, { priority }),
+      `Priority set to ${priority}.`
+    );
+
+  const handleDueDate = () => {
+    if (!dueDate) return;
+    apply(
+      planFieldChange(selected, { dueDate }),
+      `Due ${format(parseDateKey(dueDate), "MMM d, yyyy")}.`
+    );
+    setIsDatePickerOpen(false);
+  };
+
+  const handleMove = (projectId: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return;
+    apply(
+      planProjectMove(
+        tasks,
+        selected.map((t) => t.id),
+        project
+      ),
+      `Moved to ${project.name}, along with any subtasks.`
+    );
+  };
+
+  const handleDelete = () => {
+    deleteTasks(selected.map((t) => t.id));
+    toast({
+      title: `${countTasks(selected.length)} moved to trash`,
+      description: "They can be restored from Trash.",
+      action: undoAction(),
+    });
+    setIsDeleteOpen(false);
+    onClear();
+  };
+
+  return (
+    <>
+      <AnimatePresence>
+        {selected.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="fixed bottom-6 left-1/2 z-40 -translate-x-1/2 flex flex-wrap items-center gap-2 rounded-xl border border-border bg-card px-4 py-3 shadow-custom-lg"
+          >
+            <span className="text-sm font-medium mr-2">
+              {countTasks(selected.length)} selected
+            </span>
+
+            <Select value="" onValueChange={handleStatus}>
+              <SelectTrigger className="h-9 w-36">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses.map((status) => (
+                  <SelectItem key={status.id} value={status.id}>
+                    {status.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value=""
+              onValueChange={(value) =>
+                handlePriority(value as Task["priority"])
+              }
+            >
+              <SelectTrigger className="h-9 w-32">
+                <SelectValue placeholder="Priority" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="h-9">
+                  <CalendarDays className="h-4 w-4" />
+                  Due Date
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 space-y-3">
+                <Input
+                  type="date"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  className="w-full"
+                  disabled={!dueDate}
+                  onClick={handleDueDate}
+                >
+                  Set Due Date
+                </Button>
+              </PopoverContent>
+            </Popover>
+
+            {moveTargets.length > 0 && (
+              <Select value="" onValueChange={handleMove}>
+                <SelectTrigger className="h-9 w-40">
+                  <SelectValue placeholder="Move to…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {moveTargets.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9 text-destructive hover:text-destructive"
+              onClick={() => setIsDeleteOpen(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9"
+              onClick={onClear}
+              aria-label="Clear selection"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AlertDialog
+        open={!!pendingStatus}
+        onOpenChange={() => setPendingStatus(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Move {countTasks(pendingStatus?.updates.length ?? 0)} to{" "}
+              {pendingStatus?.statusName}?
+            </AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="max-h-72 space-y-3 overflow-y-auto">
+                {pendingStatus?.flagged.map(({ id, title, warnings }) => (
+                  <div key={id} className="space-y-1">
+                    <p>"{title}" may not be ready:</p>
+                    <ul className="list-disc pl-5">
+                      {warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmStatus}>
+              Move Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {countTasks(selected.length)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected tasks and their subtasks will be moved to the trash,
+              where they can be restored until they're purged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
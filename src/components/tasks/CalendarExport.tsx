@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { CalendarPlus, Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useCalendarFeed } from "@/hooks/use-calendar-feed";
+import { toast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import { tasksToIcs } from "@/lib/ical";
+import type { IcsEntryType } from "@/lib/ical";
+
+const entryTypes: { value: IcsEntryType; label: string; hint: string }[] = [
+  {
+    value: "todo",
+    label: "To-dos",
+    hint: "Keeps completion; for Apple Reminders, Thunderbird and Outlook.",
+  },
+  {
+    value: "event",
+    label: "All-day events",
+    hint: "For calendars that don't show to-dos, such as Google Calendar.",
+  },
+];
+
+interface CalendarExportProps {
+  /** The project picked when the dialog opens; all projects if unset. */
+  defaultProjectId?: string;
+}
+
+/**
+ * Button and dialog for getting task due dates into calendar apps, as a
+ * one-off .ics download or, where the backend serves one, a live feed.
+ */
+export function CalendarExport({ defaultProjectId }: CalendarExportProps) {
+  const { projects, tasks } = useWorkspace({ hideArchived: true });
+  const [open, setOpen] = useState(false);
+  const [projectId, setProjectId] = useState("all");
+  const [type, setType] = useState<IcsEntryType>("todo");
+  const [includeCompleted, setIncludeCompleted] = useState(true);
+  const feed = useCalendarFeed(open);
+
+  const project = projects.find((p) => p.id === projectId);
+  const calendarName = project ? `ProManage · ${project.name}` : "ProManage";
+
+  const openDialog = () => {
+    setProjectId(
+      projects.some((p) => p.id === defaultProjectId)
+        ? defaultProjectId!
+        : "all"
+    );
+    setOpen(true);
+  };
+
+  const handleDownload = () => {
+    downloadFile(
+      `${project ? project.name : "promanage"}-tasks.ics`,
+      tasksToIcs(
+        project ? tasks.filter((t) => t.projectId === project.id) : tasks,
+        projects,
+        { type, calendarName, includeCompleted }
+      ),
+      "text/calendar"
+    );
+    setOpen(false);
+  };
+
+  const feedUrl = (() => {
+    if (!feed.url) return "";
+    const url = new URL(feed.url);
+    if (project) url.searchParams.set("project", project.id);
+    if (type === "event") url.searchParams.set("type", "event");
+    if (!includeCompleted) url.searchParams.set("completed", "0");
+    return url.href;
+  })();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({
+        title: "Couldn't copy the link",
+        description: "Select it and copy it by hand instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog}>
+        <CalendarPlus className="h-5 w-5" />
+        Add to Calendar
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add to Calendar</DialogTitle>
+            <DialogDescription>
+              Put task due dates in your calendar app.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All projects</SelectItem>
+                  {projects.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <RadioGroup
+              value={type}
+              onValueChange={(value) => setType(value as IcsEntryType)}
+              className="gap-3"
+            >
+              {entryTypes.map((option) => (
+                <Label
+                  key={option.value}
+                  htmlFor={`ics-${option.value}`}
+                  className="flex items-start gap-3 rounded-lg border border-border p-3 font-normal cursor-pointer"
+                >
+                  <RadioGroupItem
+                    id={`ics-${option.value}`}
+                    value={option.value}
+                    className="mt-0.5"
+                  />
+                  <span className="space-y-0.5">
+                    <span className="block font-medium">{option.label}</span>
+                    <span className="block text-sm text-muted-foreground">
+                      {option.hint}
+                    </span>
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="ics-completed">Include completed tasks</Label>
+              <Switch
+                id="ics-completed"
+                checked={includeCompleted}
+                onCheckedChange={setIncludeCompleted}
+              />
+            </div>
+
+            {feed.supported && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <Label htmlFor="ics-feed">Subscribe</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="ics-feed"
+                      readOnly
+                      value={
+                        feed.failed
+                          ? "Couldn't create a subscription link"
+                          : feedUrl || "Creating link…"
+                      }
+                      onFocus={(event) => event.target.select()}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      disabled={!feedUrl}
+                      onClick={handleCopy}
+                      aria-label="Copy link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Calendar apps check this link for changes. Anyone who has it
+                    can see these tasks, so keep it private.
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleDownload}>
+              <Download className="h-4 w-4" />
+              Download .ics
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
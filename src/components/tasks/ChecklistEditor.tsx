@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { ChecklistItem } from "@/store/useStore";
+import { generateId } from "@/lib/utils";
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+export function ChecklistEditor({ items, onChange }: ChecklistEditorProps) {
+  const [draft, setDraft] = useState("");
+
+  const addItem = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onChange([...items, { id: generateId(), text, done: false }]);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.id} className="group flex items-center gap-2">
+          <Checkbox
+            checked={item.done}
+            onCheckedChange={(checked) =>
+              onChange(
+                items.map((i) =>
+                  i.id === item.id ? { ...i, done: checked === true } : i
+                )
+              )
+            }
+          />
+          <span
+            className={`flex-1 text-sm ${
+              item.done ? "line-through text-muted-foreground" : ""
+            }`}
+          >
+            {item.text}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+            onClick={() => onChange(items.filter((i) => i.id !== item.id))}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          placeholder="Add checklist item"
+          maxLength={100}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={addItem}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getBlockedTasks, wouldCreateCycle } from "@/lib/dependencies";
+import { useWorkspace } from "@/hooks/use-workspace";
+
+interface DependencyPickerProps {
+  /** The task being edited; omitted while creating a new one. */
+  taskId?: string;
+  value: string[];
+  onChange: (blockedBy: string[]) => void;
+}
+
+export function DependencyPicker({
+  taskId,
+  value,
+  onChange,
+}: DependencyPickerProps) {
+  const { tasks, projects } = useWorkspace();
+
+  // Judge candidates against the draft edges, not the saved ones.
+  const graph = tasks.map((t) =>
+    t.id === taskId ? { ...t, blockedBy: value } : t
+  );
+  const candidates = tasks.filter(
+    (t) => t.id !== taskId && !value.includes(t.id)
+  );
+  const blocks = taskId ? getBlockedTasks(tasks, taskId) : [];
+
+  const label = (id: string) => {
+    const task = tasks.find((t) => t.id === id);
+    const project = projects.find((p) => p.id === task?.projectId);
+    return task ? `${project?.name ?? "Unknown"} · ${task.title}` : id;
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((id) => (
+            <Badge key={id} variant="secondary" className="gap-1">
+              {label(id)}
+              <button
+                type="button"
+                aria-label="Remove dependency"
+                onClick={() => onChange(value.filter((v) => v !== id))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Select value="" onValueChange={(id) => onChange([...value, id])}>
+        <SelectTrigger>
+          <SelectValue placeholder="Add a task this one waits on" />
+        </SelectTrigger>
+        <SelectContent>
+          {candidates.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              No other tasks
+            </p>
+          )}
+          {candidates.map((task) => {
+            const cyclic = !!taskId && wouldCreateCycle(graph, taskId, task.id);
+            return (
+              <SelectItem key={task.id} value={task.id} disabled={cyclic}>
+                {label(task.id)}
+                {cyclic && " (would create a cycle)"}
+              </SelectItem>
+            );
+          })}
+        </SelectContent>
+      </Select>
+      {blocks.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Blocks {blocks.map((t) => t.title).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
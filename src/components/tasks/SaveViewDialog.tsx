@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Bookmark } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { filtersToParams } from "@/hooks/use-task-filters";
+import type { TaskFilters } from "@/hooks/use-task-filters";
+import { toast } from "@/hooks/use-toast";
+
+interface SaveViewDialogProps {
+  filters: TaskFilters;
+  disabled?: boolean;
+}
+
+/** Button and dialog for saving the current filters as a named view. */
+export function SaveViewDialog({ filters, disabled }: SaveViewDialogProps) {
+  const { views, saveView } = useSavedViews();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const trimmed = name.trim();
+  const replaces = views.some(
+    (view) => view.name.toLowerCase() === trimmed.toLowerCase()
+  );
+
+  const openDialog = () => {
+    setName("");
+    setOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!trimmed) return;
+    saveView(trimmed, filtersToParams(filters).toString());
+    toast({
+      title: "View saved",
+      description: `"${trimmed}" is in the sidebar under Tasks.`,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" disabled={disabled} onClick={openDialog}>
+        <Bookmark className="h-5 w-5" />
+        Save View
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Keep these filters one click away in the sidebar.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            id="save-view"
+            className="space-y-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleSave();
+            }}
+          >
+            <Label htmlFor="save-view-name">Name</Label>
+            <Input
+              id="save-view-name"
+              autoFocus
+              placeholder="e.g. High priority overdue"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            {replaces && (
+              <p className="text-sm text-muted-foreground">
+                This replaces the saved view with the same name.
+              </p>
+            )}
+          </form>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" form="save-view" disabled={!trimmed}>
+              {replaces ? "Replace View" : "Save View"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+export interface PendingStatusChange {
+  taskId: string;
+  title: string;
+  status: string;
+  statusName: string;
+  warnings: string[];
+  /** Board rank to apply along with the status when it came from a drag. */
+  order?: number;
+}
+
+interface StatusChangeDialogProps {
+  pending: PendingStatusChange | null;
+  onConfirm: (change: PendingStatusChange) => void;
+  onCancel: () => void;
+}
+
+export function StatusChangeDialog({
+  pending,
+  onConfirm,
+  onCancel,
+}: StatusChangeDialogProps) {
+  return (
+    <AlertDialog open={!!pending} onOpenChange={onCancel}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Move to {pending?.statusName}?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>"{pending?.title}" may not be ready:</p>
+              <ul className="list-disc pl-5">
+                {pending?.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => pending && onConfirm(pending)}>
+            Move Anyway
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
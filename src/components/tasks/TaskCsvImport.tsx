@@ -0,0 +1,299 @@
+import { useMemo, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { AlertCircle, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { parseCsv } from "@/lib/csv";
+import { projectColors } from "@/lib/forms";
+import { isArchived } from "@/lib/archive";
+import { guessMapping, planTaskImport, taskCsvFields } from "@/lib/taskCsv";
+import type { ColumnMapping } from "@/lib/taskCsv";
+
+interface CsvFile {
+  name: string;
+  header: string[];
+  records: string[][];
+}
+
+const NONE = "none";
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+interface TaskCsvImportProps {
+  /** Where rows without a project go unless the user picks otherwise. */
+  defaultProjectId?: string;
+}
+
+/**
+ * Import button and wizard for tasks from a CSV file: map the columns, review
+ * what will be created and which rows have problems, then import in one step.
+ */
+export function TaskCsvImport({ defaultProjectId }: TaskCsvImportProps) {
+  const { addProject, addTask, batch } = useStore();
+  const { projects } = useWorkspace();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<CsvFile | null>(null);
+  const [step, setStep] = useState<"map" | "review">("map");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fallbackProjectId, setFallbackProjectId] = useState(NONE);
+
+  const activeProjects = useMemo(
+    () => projects.filter((p) => !isArchived(p)),
+    [projects]
+  );
+
+  const plan = useMemo(
+    () =>
+      file &&
+      planTaskImport(
+        file.records,
+        mapping,
+        projects,
+        fallbackProjectId === NONE ? undefined : fallbackProjectId
+      ),
+    [file, mapping, projects, fallbackProjectId]
+  );
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const picked = event.target.files?.[0];
+    // Clear the input so picking the same file again still fires.
+    event.target.value = "";
+    if (!picked) return;
+    const [header, ...records] = parseCsv(await picked.text());
+    if (!header || records.length === 0) {
+      toast({
+        title: "Couldn't import CSV",
+        description:
+          "The file needs a header row and at least one row of tasks.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setFile({ name: picked.name, header, records });
+    setMapping(guessMapping(header));
+    setFallbackProjectId(
+      activeProjects.some((p) => p.id === defaultProjectId)
+        ? defaultProjectId!
+        : NONE
+    );
+    setStep("map");
+  };
+
+  const setColumn = (field: keyof ColumnMapping, value: string) =>
+    setMapping((current) => ({
+      ...current,
+      [field]: value === NONE ? undefined : Number(value),
+    }));
+
+  const missingFields = taskCsvFields.filter(
+    ({ field, required }) => required && mapping[field] === undefined
+  );
+
+  const handleImport = () => {
+    if (!plan) return;
+    batch("Import CSV", () => {
+      const created = new Map(
+        plan.newProjects.map((name, index) => [
+          name,
+          addProject({
+            name,
+            description: "",
+            color: projectColors[index % projectColors.length],
+          }).id,
+        ])
+      );
+      plan.tasks.forEach(({ task, projectId, newProject }) =>
+        addTask({
+          ...task,
+          projectId: projectId ?? created.get(newProject!)!,
+        })
+      );
+    });
+    toast({
+      title: "Tasks imported",
+      description: [
+        `${plural(plan.tasks.length, "task")} added`,
+        plan.newProjects.length > 0 &&
+          `${plural(plan.newProjects.length, "new project")} created`,
+        plan.errors.length > 0 &&
+          `${plural(plan.errors.length, "row")} skipped`,
+      ]
+        .filter(Boolean)
+        .join(", "),
+      action: undoAction(),
+    });
+    setFile(null);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => fileInput.current?.click()}>
+        <Upload className="h-5 w-5" />
+        Import CSV
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="text/csv,.csv"
+        className="hidden"
+        onChange={handleFile}
+      />
+
+      <Dialog open={!!file} onOpenChange={() => setFile(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {step === "map" ? "Match Columns" : "Review Import"}
+            </DialogTitle>
+            {file && (
+              <DialogDescription>
+                {file.name} · {plural(file.records.length, "row")}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          {file && step === "map" && (
+            <div className="space-y-3">
+              {taskCsvFields.map(({ field, label, required }) => (
+                <div
+                  key={field}
+                  className="grid grid-cols-[8rem_1fr] items-center gap-3"
+                >
+                  <Label>
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={String(mapping[field] ?? NONE)}
+                    onValueChange={(value) => setColumn(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Don't import</SelectItem>
+                      {file.header.map((name, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {name || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="grid grid-cols-[8rem_1fr] items-center gap-3">
+                <Label>Default project</Label>
+                <Select
+                  value={fallbackProjectId}
+                  onValueChange={setFallbackProjectId}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None</SelectItem>
+                    {activeProjects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Rows without a project go to the default project. Projects that
+                don't exist yet are created.
+              </p>
+            </div>
+          )}
+
+          {plan && step === "review" && (
+            <div className="space-y-3 text-sm">
+              <div className="rounded-lg bg-secondary/50 p-3 space-y-1">
+                <p>
+                  <span className="font-medium">Tasks:</span>{" "}
+                  {plural(plan.tasks.length, "task")} ready to import
+                </p>
+                {plan.newProjects.length > 0 && (
+                  <p>
+                    <span className="font-medium">New projects:</span>{" "}
+                    {plan.newProjects.join(", ")}
+                  </p>
+                )}
+              </div>
+              {plan.errors.length > 0 && (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-2 font-medium text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {plural(plan.errors.length, "row")} can't be imported and
+                    will be skipped
+                  </p>
+                  <ul className="max-h-48 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+                    {plan.errors.map(({ row, messages }) => (
+                      <li key={row} className="px-3 py-2">
+                        <span className="font-medium">Row {row}:</span>{" "}
+                        <span className="text-muted-foreground">
+                          {messages.join("; ")}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {step === "map" ? (
+              <>
+                <Button variant="outline" onClick={() => setFile(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  disabled={missingFields.length > 0}
+                  onClick={() => setStep("review")}
+                >
+                  {missingFields.length > 0
+                    ? `Choose a column for ${missingFields.map((f) => f.label).join(" and ")}`
+                    : "Next"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setStep("map")}>
+                  Back
+                </Button>
+                <Button
+                  disabled={!plan || plan.tasks.length === 0}
+                  onClick={handleImport}
+                >
+                  Import {plural(plan?.tasks.length ?? 0, "Task")}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
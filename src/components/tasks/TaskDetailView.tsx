@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { CornerDownRight, Link2, ListTree, Lock, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { Task } from "@/store/useStore";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { useStatusChange } from "@/hooks/use-status-change";
+import { findStatus, getWorkflow } from "@/lib/workflow";
+import { getSubtasks } from "@/lib/subtasks";
+import { getBlockedTasks, getBlockers } from "@/lib/dependencies";
+import { isArchived } from "@/lib/archive";
+import { ActivityList } from "@/components/activity/ActivityList";
+import { ChecklistEditor } from "./ChecklistEditor";
+import { StatusChangeDialog } from "./StatusChangeDialog";
+import { TaskProgress } from "./TaskProgress";
+import { BlockedBadge } from "./BlockedBadge";
+
+interface TaskDetailViewProps {
+  task: Task;
+  /** Where related tasks link to, so the overlay can stay inside its project. */
+  linkTo?: (task: Task) => string;
+}
+
+const defaultLinkTo = (task: Task) => `/tasks/${task.id}`;
+
+/**
+ * Full view of a single task. Fields save as they change, so the same view
+ * works as a page and as an overlay.
+ */
+export function TaskDetailView({
+  task,
+  linkTo = defaultLinkTo,
+}: TaskDetailViewProps) {
+  const { activity, updateTask } = useStore();
+  const { tasks, projects } = useWorkspace();
+  const [title, setTitle] = useState(task.title);
+  const [description, setDescription] = useState(task.description);
+  const statusChange = useStatusChange((taskId, status) => {
+    updateTask(taskId, { status });
+    toast({ title: "Status updated", action: undoAction() });
+  });
+
+  const project = projects.find((p) => p.id === task.projectId);
+  const readOnly = isArchived(project);
+  const parent = task.parentId
+    ? tasks.find((t) => t.id === task.parentId)
+    : undefined;
+
+  const saveTitle = () => {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      setTitle(task.title);
+      return;
+    }
+    if (trimmed !== task.title) updateTask(task.id, { title: trimmed });
+  };
+
+  const saveDescription = () => {
+    if (description !== task.description) {
+      updateTask(task.id, { description });
+    }
+  };
+
+  const copyLink = async () => {
+    const url = `${window.location.origin}/tasks/${task.id}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: url });
+    } catch {
+      toast({
+        title: "Couldn't copy link",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const related = [
+    { label: "Parent", icon: CornerDownRight, items: parent ? [parent] : [] },
+    { label: "Subtasks", icon: ListTree, items: getSubtasks(tasks, task.id) },
+    { label: "Blocked by", icon: Lock, items: getBlockers(task, tasks) },
+    { label: "Blocks", icon: Unlock, items: getBlockedTasks(tasks, task.id) },
+  ].filter((group) => group.items.length > 0);
+
+  const taskActivity = activity.filter(
+    (entry) => entry.entityType === "task" && entry.entityId === task.id
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1 space-y-1">
+          {project && (
+            <Link
+              to={`/projects/${project.id}`}
+              className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <span
+                className="h-2.5 w-2.5 rounded-full"
+                style={{ backgroundColor: project.color }}
+              />
+              {project.name}
+            </Link>
+          )}
+          <Input
+            aria-label="Task title"
+            value={title}
+            maxLength={100}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={saveTitle}
+            readOnly={readOnly}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            className="h-auto border-transparent px-0 text-2xl font-bold shadow-none focus-visible:border-input focus-visible:px-2"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <TaskProgress task={task} className="text-xs" />
+            <BlockedBadge task={task} />
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={copyLink}>
+          <Link2 className="h-4 w-4" />
+          Copy Link
+        </Button>
+      </div>
+
+      {readOnly && (
+        <p className="rounded-lg border border-border bg-secondary/50 px-4 py-3 text-sm text-muted-foreground">
+          This task's project is archived, so the task is read-only.
+        </p>
+      )}
+
+      <fieldset disabled={readOnly} className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={task.status}
+              onValueChange={(status) =>
+                statusChange.requestStatusChange(task, status)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getWorkflow(project).map((status) => (
+                  <SelectItem key={status.id} value={status.id}>
+                    {status.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Select
+              value={task.priority}
+              onValueChange={(priority: Task["priority"]) =>
+                updateTask(task.id, { priority })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="task-start-date">Start Date</Label>
+            <Input
+              id="task-start-date"
+              type="date"
+              value={task.startDate ?? ""}
+              max={task.dueDate}
+              onChange={(e) => {
+                const startDate = e.target.value;
+                if (!startDate || startDate <= task.dueDate) {
+                  updateTask(task.id, { startDate });
+                }
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-due-date">Due Date</Label>
+            <Input
+              id="task-due-date"
+              type="date"
+              value={task.dueDate}
+              min={task.startDate || undefined}
+              onChange={(e) => {
+                const dueDate = e.target.value;
+                if (dueDate && (!task.startDate || task.startDate <= dueDate)) {
+                  updateTask(task.id, { dueDate });
+                }
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="task-description">Description</Label>
+          <Textarea
+            id="task-description"
+            value={description}
+            maxLength={500}
+            rows={4}
+            placeholder="Add a description"
+            onChange={(e) => setDescription(e.target.value)}
+            onBlur={saveDescription}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Checklist</Label>
+          <ChecklistEditor
+            items={task.checklist ?? []}
+            onChange={(checklist) => updateTask(task.id, { checklist })}
+          />
+        </div>
+      </fieldset>
+
+      {related.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-foreground">
+            Related Tasks
+          </h3>
+          {related.map((group) => (
+            <div key={group.label} className="space-y-1">
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <group.icon className="h-3 w-3" />
+                {group.label}
+              </p>
+              {group.items.map((item) => {
+                const itemProject = projects.find(
+                  (p) => p.id === item.projectId
+                );
+                const status = findStatus(itemProject, item.status);
+                return (
+                  <Link
+                    key={item.id}
+                    to={linkTo(item)}
+                    className="flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-secondary"
+                  >
+                    <span className="truncate text-foreground">
+                      {item.title}
+                    </span>
+                    {status && (
+                      <Badge
+                        variant="secondary"
+                        style={{
+                          backgroundColor: status.color + "20",
+                          color: status.color,
+                        }}
+                      >
+                        {status.name}
+                      </Badge>
+                    )}
+                  </Link>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-foreground">History</h3>
+        <ActivityList
+          entries={taskActivity}
+          showEntity={false}
+          emptyMessage={`Created ${format(new Date(task.createdAt), "MMM d, yyyy")}; no changes recorded since.`}
+        />
+      </div>
+
+      <StatusChangeDialog
+        pending={statusChange.pending}
+        onConfirm={statusChange.confirm}
+        onCancel={statusChange.cancel}
+      />
+    </div>
+  );
+}
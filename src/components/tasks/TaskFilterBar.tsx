@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { TaskFilters } from "@/hooks/use-task-filters";
+import { mergeWorkflows } from "@/lib/workflow";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { TaskQueryInput } from "./TaskQueryInput";
+
+interface TaskFilterBarProps {
+  filters: TaskFilters;
+  onChange: <K extends keyof TaskFilters>(
+    key: K,
+    value: TaskFilters[K]
+  ) => void;
+}
+
+export function TaskFilterBar({ filters, onChange }: TaskFilterBarProps) {
+  const { projects } = useWorkspace({ hideArchived: true });
+  const statusOptions = useMemo(() => mergeWorkflows(projects), [projects]);
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-start gap-4">
+      <TaskQueryInput
+        value={filters.search}
+        onChange={(value) => onChange("search", value)}
+        projects={projects}
+        className="flex-1 max-w-md"
+      />
+      <div className="flex flex-wrap gap-2">
+        <Select
+          value={filters.project}
+          onValueChange={(value) => onChange("project", value)}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Projects</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.status}
+          onValueChange={(value) => onChange("status", value)}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Status</SelectItem>
+            {statusOptions.map((status) => (
+              <SelectItem key={status.id} value={status.id}>
+                {status.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.priority}
+          onValueChange={(value) => onChange("priority", value)}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priority</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.due}
+          onValueChange={(value) =>
+            onChange("due", value as TaskFilters["due"])
+          }
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Due Date" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Due Date</SelectItem>
+            <SelectItem value="overdue">Overdue</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
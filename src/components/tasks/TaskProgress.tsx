@@ -0,0 +1,36 @@
+import { ListChecks } from "lucide-react";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { Task } from "@/store/useStore";
+import { getTaskProgress } from "@/lib/subtasks";
+import { cn } from "@/lib/utils";
+
+interface TaskProgressProps {
+  task: Task;
+  className?: string;
+}
+
+/** Subtask and checklist completion; renders nothing for plain tasks. */
+export function TaskProgress({ task, className }: TaskProgressProps) {
+  const { tasks, projects } = useWorkspace();
+  const { done, total } = getTaskProgress(task, tasks, projects);
+  if (total === 0) return null;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1.5 text-muted-foreground",
+        className
+      )}
+      title={`${done} of ${total} subtasks and checklist items done`}
+    >
+      <ListChecks className="h-3 w-3" />
+      <span className="h-1 w-10 rounded-full bg-secondary overflow-hidden">
+        <span
+          className="block h-full bg-success transition-all duration-500"
+          style={{ width: `${(done / total) * 100}%` }}
+        />
+      </span>
+      {done}/{total}
+    </span>
+  );
+}
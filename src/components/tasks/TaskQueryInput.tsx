@@ -0,0 +1,201 @@
+import { useId, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { Project } from "@/store/useStore";
+import { getQuerySuggestions, parseTaskQuery } from "@/lib/taskQuery";
+import type { QuerySuggestion } from "@/lib/taskQuery";
+import { cn } from "@/lib/utils";
+
+const MAX_SUGGESTIONS = 8;
+
+interface TaskQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** The projects being searched, for resolving and suggesting names. */
+  projects: Project[];
+  className?: string;
+}
+
+/**
+ * Search box for task queries. Suggests filters and their values as you
+ * type and underlines terms it can't understand, explaining each below.
+ */
+export function TaskQueryInput({
+  value,
+  onChange,
+  projects,
+  className,
+}: TaskQueryInputProps) {
+  const id = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Where the caret is while the input has focus.
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [active, setActive] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const { tokens } = useMemo(
+    () => parseTaskQuery(value, projects),
+    [value, projects]
+  );
+  const completion =
+    cursor === null || dismissed
+      ? null
+      : getQuerySuggestions(value, cursor, projects);
+  const suggestions = completion?.suggestions.slice(0, MAX_SUGGESTIONS) ?? [];
+  const activeIndex = Math.min(active, suggestions.length - 1);
+  // The term being typed isn't flagged until the caret leaves it.
+  const invalid = tokens.filter(
+    (token) =>
+      token.error &&
+      !(cursor !== null && token.start <= cursor && cursor <= token.end)
+  );
+
+  // The overlay draws the underlines, so it scrolls along with the text.
+  const syncCursor = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    setCursor(input.selectionStart);
+    if (overlayRef.current) overlayRef.current.scrollLeft = input.scrollLeft;
+  };
+
+  const accept = (suggestion: QuerySuggestion) => {
+    if (!completion) return;
+    const rest = value.slice(completion.end);
+    // Filter names still need a value; finished terms get a space after.
+    const insert =
+      suggestion.insert.endsWith(":") || rest.startsWith(" ")
+        ? suggestion.insert
+        : `${suggestion.insert} `;
+    const position = completion.start + insert.length;
+    onChange(value.slice(0, completion.start) + insert + rest);
+    setActive(0);
+    setCursor(position);
+    requestAnimationFrame(() =>
+      inputRef.current?.setSelectionRange(position, position)
+    );
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape" && suggestions.length > 0) {
+      event.preventDefault();
+      setDismissed(true);
+      return;
+    }
+    if (suggestions.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActive((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      accept(suggestions[activeIndex]);
+    }
+  };
+
+  // The query split into plain runs and invalid terms, for the overlay.
+  const segments: { text: string; invalid: boolean }[] = [];
+  let position = 0;
+  invalid.forEach((token) => {
+    segments.push({
+      text: value.slice(position, token.start),
+      invalid: false,
+    });
+    segments.push({ text: token.text, invalid: true });
+    position = token.end;
+  });
+  segments.push({ text: value.slice(position), invalid: false });
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className="pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre border border-transparent pl-10 pr-3 text-base text-transparent md:text-sm"
+        >
+          {segments.map((segment, index) => (
+            <span
+              key={index}
+              className={cn(
+                segment.invalid &&
+                  "underline decoration-destructive decoration-wavy underline-offset-4"
+              )}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </div>
+        <Input
+          ref={inputRef}
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={`${id}-suggestions`}
+          aria-autocomplete="list"
+          aria-invalid={invalid.length > 0}
+          aria-describedby={invalid.length > 0 ? `${id}-errors` : undefined}
+          placeholder="Search, or filter like priority:high is:blocked"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setDismissed(false);
+            setActive(0);
+          }}
+          onSelect={syncCursor}
+          onFocus={syncCursor}
+          onScroll={syncCursor}
+          onBlur={() => setCursor(null)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          className="pl-10"
+        />
+
+        {suggestions.length > 0 && (
+          <ul
+            id={`${id}-suggestions`}
+            role="listbox"
+            className="absolute left-0 top-full z-50 mt-1 w-full rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.insert}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input while picking.
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => accept(suggestion)}
+                onMouseEnter={() => setActive(index)}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between gap-4 rounded-sm px-2 py-1.5 text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <span className="truncate font-mono">{suggestion.label}</span>
+                {suggestion.hint && (
+                  <span className="truncate text-xs text-muted-foreground">
+                    {suggestion.hint}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {invalid.length > 0 && (
+        <ul
+          id={`${id}-errors`}
+          className="space-y-0.5 text-xs text-destructive"
+        >
+          {invalid.map((token) => (
+            <li key={token.start}>
+              <span className="font-mono">{token.text}</span> — {token.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+
+interface TaskSelectCheckboxProps {
+  title: string;
+  checked: boolean;
+  /** Whether anything is selected; until then the box shows on hover. */
+  selecting: boolean;
+  /** `range` is set for shift-clicks. */
+  onToggle: (range: boolean) => void;
+  className?: string;
+}
+
+/** Selects a task card for bulk actions. Shift-click selects a range. */
+export function TaskSelectCheckbox({
+  title,
+  checked,
+  selecting,
+  onToggle,
+  className,
+}: TaskSelectCheckboxProps) {
+  return (
+    <Checkbox
+      checked={checked}
+      aria-label={`Select "${title}"`}
+      onClick={(event) => {
+        // The selection is the source of truth; skip the built-in toggle.
+        event.preventDefault();
+        onToggle(event.shiftKey);
+      }}
+      className={cn(
+        "shrink-0 transition-opacity",
+        !selecting &&
+          !checked &&
+          "opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+        className
+      )}
+    />
+  );
+}
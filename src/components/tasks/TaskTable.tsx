@@ -0,0 +1,502 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format, isBefore } from "date-fns";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+  Pencil,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStore } from "@/store/useStore";
+import type { Task } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { toast } from "@/hooks/use-toast";
+import { isArchived } from "@/lib/archive";
+import { planFieldChange } from "@/lib/bulkEdit";
+import { parseDateKey } from "@/lib/dates";
+import { taskSchema } from "@/lib/forms";
+import { findStatus, getWorkflow, isTaskDone } from "@/lib/workflow";
+import {
+  defaultTableLayout,
+  nextSort,
+  swapColumns,
+  taskColumnLabels,
+} from "@/lib/taskTable";
+import type { TableLayout, TaskColumn } from "@/lib/taskTable";
+import { cn } from "@/lib/utils";
+import { TaskSelectCheckbox } from "./TaskSelectCheckbox";
+import { BlockedBadge } from "./BlockedBadge";
+
+const priorityColors = {
+  low: "text-muted-foreground",
+  medium: "text-warning",
+  high: "text-destructive",
+};
+
+// Inline editors blend into the row until hovered or focused.
+const cellControl =
+  "h-8 border-transparent bg-transparent shadow-none hover:border-input focus:border-input";
+
+interface TaskTableProps {
+  /** Rows in display order, already sorted by `layout.sort`. */
+  tasks: Task[];
+  layout: TableLayout;
+  onLayoutChange: (layout: TableLayout) => void;
+  /** Status edits go through the caller so they get the usual checks. */
+  onStatusChange: (task: Task, status: string) => void;
+  linkTo: (task: Task) => string;
+  /** Columns that don't apply here, e.g. the project on a project's page. */
+  omit?: TaskColumn[];
+  /** Row picked with the keyboard shortcuts. */
+  highlightedId?: string | null;
+  /** Checkbox selection for bulk actions; no checkboxes without it. */
+  selection?: {
+    isSelected: (id: string) => boolean;
+    toggle: (id: string, range: boolean) => void;
+  };
+}
+
+/**
+ * Tasks as rows with sortable, configurable columns. Clicking a header
+ * sorts by it and shift-clicking adds it as a further sort key. Cells edit
+ * in place, except on tasks in archived projects.
+ */
+export function TaskTable({
+  tasks,
+  layout,
+  onLayoutChange,
+  onStatusChange,
+  linkTo,
+  omit = [],
+  highlightedId,
+  selection,
+}: TaskTableProps) {
+  const { updateTasks } = useStore();
+  const { projects } = useWorkspace();
+
+  const columns = layout.columns.filter(
+    (column) => column.visible && !omit.includes(column.id)
+  );
+  const selecting =
+    !!selection && tasks.some((t) => selection.isSelected(t.id));
+
+  const sortBy = (column: TaskColumn, additive: boolean) =>
+    onLayoutChange({
+      ...layout,
+      sort: nextSort(layout.sort, column, additive),
+    });
+
+  const renderCell = (task: Task, column: TaskColumn) => {
+    const project = projects.find((p) => p.id === task.projectId);
+    const readOnly = isArchived(project);
+    const isDone = isTaskDone(task, projects);
+
+    switch (column) {
+      case "title":
+        return (
+          <TitleCell
+            task={task}
+            to={linkTo(task)}
+            isDone={isDone}
+            readOnly={readOnly}
+          />
+        );
+      case "project":
+        return project ? (
+          <Link
+            to={`/projects/${project.id}`}
+            className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <span
+              className="h-2 w-2 shrink-0 rounded-full"
+              style={{ backgroundColor: project.color }}
+            />
+            <span className="truncate">{project.name}</span>
+          </Link>
+        ) : null;
+      case "status": {
+        const status = findStatus(project, task.status);
+        const dot = (
+          <span
+            className="h-2 w-2 shrink-0 rounded-full"
+            style={{ backgroundColor: status?.color }}
+          />
+        );
+        if (readOnly) {
+          return (
+            <span className="flex items-center gap-1.5">
+              {dot}
+              {status?.name ?? task.status}
+            </span>
+          );
+        }
+        return (
+          <Select
+            value={task.status}
+            onValueChange={(value) => onStatusChange(task, value)}
+          >
+            <SelectTrigger className={cn(cellControl, "w-40")}>
+              <span className="flex items-center gap-1.5">
+                {dot}
+                <SelectValue />
+              </span>
+            </SelectTrigger>
+            <SelectContent>
+              {getWorkflow(project).map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case "priority":
+        if (readOnly) {
+          return (
+            <span className={cn("capitalize", priorityColors[task.priority])}>
+              {task.priority}
+            </span>
+          );
+        }
+        return (
+          <Select
+            value={task.priority}
+            onValueChange={(value) =>
+              updateTasks(
+                planFieldChange([task], {
+                  priority: value as Task["priority"],
+                })
+              )
+            }
+          >
+            <SelectTrigger
+              className={cn(cellControl, "w-28", priorityColors[task.priority])}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="low">Low</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+      case "dueDate": {
+        const isOverdue =
+          !isDone && isBefore(parseDateKey(task.dueDate), new Date());
+        if (readOnly) {
+          return (
+            <span className={cn(isOverdue && "text-destructive")}>
+              {format(parseDateKey(task.dueDate), "MMM d, yyyy")}
+            </span>
+          );
+        }
+        return <DueDateCell task={task} isOverdue={isOverdue} />;
+      }
+      case "createdAt":
+        return (
+          <span className="text-muted-foreground">
+            {format(new Date(task.createdAt), "MMM d, yyyy")}
+          </span>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <ColumnMenu
+          layout={layout}
+          onLayoutChange={onLayoutChange}
+          omit={omit}
+        />
+      </div>
+      <div className="overflow-x-auto rounded-lg border border-border bg-card">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-left">
+              {selection && <th className="w-10 px-3" />}
+              {columns.map(({ id }) => {
+                const index = layout.sort.findIndex((s) => s.column === id);
+                const sort = layout.sort[index];
+                return (
+                  <th
+                    key={id}
+                    className="px-3 py-2 font-medium text-muted-foreground"
+                    aria-sort={
+                      sort
+                        ? sort.direction === "asc"
+                          ? "ascending"
+                          : "descending"
+                        : undefined
+                    }
+                  >
+                    <button
+                      type="button"
+                      onClick={(event) => sortBy(id, event.shiftKey)}
+                      title="Click to sort, shift-click to add to the sort"
+                      className="flex items-center gap-1 whitespace-nowrap hover:text-foreground transition-colors"
+                    >
+                      {taskColumnLabels[id]}
+                      {sort &&
+                        (sort.direction === "asc" ? (
+                          <ArrowUp className="h-3.5 w-3.5" />
+                        ) : (
+                          <ArrowDown className="h-3.5 w-3.5" />
+                        ))}
+                      {sort && layout.sort.length > 1 && (
+                        <span className="text-[10px]">{index + 1}</span>
+                      )}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {tasks.map((task) => (
+              <tr
+                key={task.id}
+                data-selection-id={task.id}
+                className={cn(
+                  "group border-b border-border last:border-0 hover:bg-secondary/50 transition-colors",
+                  highlightedId === task.id && "ring-2 ring-inset ring-primary"
+                )}
+              >
+                {selection && (
+                  <td className="px-3">
+                    {!isArchived(
+                      projects.find((p) => p.id === task.projectId)
+                    ) && (
+                      <TaskSelectCheckbox
+                        title={task.title}
+                        checked={selection.isSelected(task.id)}
+                        selecting={selecting}
+                        onToggle={(range) => selection.toggle(task.id, range)}
+                      />
+                    )}
+                  </td>
+                )}
+                {columns.map(({ id }) => (
+                  <td
+                    key={id}
+                    className={cn("px-3 py-1.5", id === "title" && "min-w-64")}
+                  >
+                    {renderCell(task, id)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+interface TitleCellProps {
+  task: Task;
+  to: string;
+  isDone: boolean;
+  readOnly: boolean;
+}
+
+function TitleCell({ task, to, isDone, readOnly }: TitleCellProps) {
+  const { updateTask } = useStore();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const save = () => {
+    const trimmed = draft?.trim() ?? task.title;
+    setDraft(null);
+    if (trimmed === task.title) return;
+    // The same rule as the task form's title field.
+    const title = taskSchema.innerType().shape.title.safeParse(trimmed);
+    if (!title.success) {
+      toast({
+        title: "Title not changed",
+        description: title.error.issues[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+    updateTask(task.id, { title: title.data });
+  };
+
+  if (draft !== null) {
+    return (
+      <Input
+        autoFocus
+        value={draft}
+        aria-label="Task title"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") save();
+          if (e.key === "Escape") setDraft(null);
+        }}
+        className="h-8"
+      />
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Link
+        to={to}
+        className={cn(
+          "font-medium hover:underline",
+          isDone ? "line-through text-muted-foreground" : "text-foreground"
+        )}
+      >
+        {task.title}
+      </Link>
+      <BlockedBadge task={task} className="text-[10px] px-1.5 py-0" />
+      {!readOnly && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+          onClick={() => setDraft(task.title)}
+          aria-label={`Rename "${task.title}"`}
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface DueDateCellProps {
+  task: Task;
+  isOverdue: boolean;
+}
+
+/**
+ * Date picker that saves on blur or Enter, so stepping through a date's
+ * parts doesn't save (and add an undo step) for every keystroke.
+ */
+function DueDateCell({ task, isOverdue }: DueDateCellProps) {
+  const { updateTasks } = useStore();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const save = () => {
+    // Cleared or half-typed dates aren't saved; a task needs one.
+    if (draft && draft !== task.dueDate) {
+      updateTasks(planFieldChange([task], { dueDate: draft }));
+    }
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      type="date"
+      value={draft ?? task.dueDate}
+      aria-label={`Due date of "${task.title}"`}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") save();
+        if (e.key === "Escape") setDraft(null);
+      }}
+      className={cn(cellControl, "w-40", isOverdue && "text-destructive")}
+    />
+  );
+}
+
+interface ColumnMenuProps {
+  layout: TableLayout;
+  onLayoutChange: (layout: TableLayout) => void;
+  omit: TaskColumn[];
+}
+
+/** Shows, hides and reorders columns. The title can't be hidden. */
+function ColumnMenu({ layout, onLayoutChange, omit }: ColumnMenuProps) {
+  const columns = layout.columns.filter((column) => !omit.includes(column.id));
+
+  const setVisible = (id: TaskColumn, visible: boolean) =>
+    onLayoutChange({
+      ...layout,
+      columns: layout.columns.map((column) =>
+        column.id === id ? { id, visible } : column
+      ),
+    });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="h-4 w-4" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-1">
+        {columns.map(({ id, visible }, index) => (
+          <div key={id} className="flex items-center gap-2">
+            <Checkbox
+              id={`task-column-${id}`}
+              checked={visible}
+              disabled={id === "title"}
+              onCheckedChange={(checked) => setVisible(id, checked === true)}
+            />
+            <label
+              htmlFor={`task-column-${id}`}
+              className="flex-1 text-sm cursor-pointer"
+            >
+              {taskColumnLabels[id]}
+            </label>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={index === 0}
+              onClick={() =>
+                onLayoutChange(swapColumns(layout, id, columns[index - 1].id))
+              }
+              aria-label={`Move ${taskColumnLabels[id]} left`}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={index === columns.length - 1}
+              onClick={() =>
+                onLayoutChange(swapColumns(layout, id, columns[index + 1].id))
+              }
+              aria-label={`Move ${taskColumnLabels[id]} right`}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full mt-2"
+          onClick={() => onLayoutChange(defaultTableLayout)}
+        >
+          Reset Columns
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
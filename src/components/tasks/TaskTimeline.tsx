@@ -0,0 +1,428 @@
+import { useMemo, useState } from "react";
+import type { PointerEvent } from "react";
+import { Link } from "react-router-dom";
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  max,
+  min,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { Project, Task } from "@/store/useStore";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { isTaskDone } from "@/lib/workflow";
+import { parseDateKey, toDateKey } from "@/lib/dates";
+import { cn } from "@/lib/utils";
+
+type Zoom = "day" | "week" | "month";
+
+const zoomLevels: Record<Zoom, { dayWidth: number; label: string }> = {
+  day: { dayWidth: 40, label: "Day" },
+  week: { dayWidth: 16, label: "Week" },
+  month: { dayWidth: 5, label: "Month" },
+};
+
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 40;
+
+type Row = { kind: "project"; project: Project } | { kind: "task"; task: Task };
+
+interface Span {
+  start: Date;
+  end: Date;
+}
+
+interface DragState {
+  taskId: string;
+  /** Which part of the bar was grabbed: either edge, or the whole bar. */
+  edge: "start" | "end" | "move";
+  originX: number;
+  days: number;
+}
+
+/** Tasks without a start date are drawn as a single day on their due date. */
+const getSpan = (task: Task): Span => {
+  const end = parseDateKey(task.dueDate);
+  const start = task.startDate ? parseDateKey(task.startDate) : end;
+  return { start: min([start, end]), end };
+};
+
+const shiftSpan = ({ start, end }: Span, drag: DragState): Span => {
+  if (drag.edge === "move") {
+    return { start: addDays(start, drag.days), end: addDays(end, drag.days) };
+  }
+  if (drag.edge === "start") {
+    return { start: min([addDays(start, drag.days), end]), end };
+  }
+  return { start, end: max([addDays(end, drag.days), start]) };
+};
+
+const byStart = (a: Task, b: Task) =>
+  getSpan(a).start.getTime() - getSpan(b).start.getTime() ||
+  a.dueDate.localeCompare(b.dueDate);
+
+interface TaskTimelineProps {
+  tasks: Task[];
+  /** Adds a heading row per project; off when showing a single project. */
+  groupByProject?: boolean;
+  linkTo?: (task: Task) => string;
+  /** Shows the schedule without letting bars be dragged. */
+  readOnly?: boolean;
+}
+
+const defaultLinkTo = (task: Task) => `/tasks/${task.id}`;
+
+export function TaskTimeline({
+  tasks,
+  groupByProject = false,
+  linkTo = defaultLinkTo,
+  readOnly = false,
+}: TaskTimelineProps) {
+  const { updateTask } = useStore();
+  const { projects } = useWorkspace();
+  const [zoom, setZoom] = useState<Zoom>("week");
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const { dayWidth } = zoomLevels[zoom];
+
+  const rows = useMemo<Row[]>(() => {
+    const sorted = [...tasks].sort(byStart);
+    if (!groupByProject) {
+      return sorted.map((task) => ({ kind: "task", task }));
+    }
+    return projects.flatMap((project): Row[] => {
+      const projectTasks = sorted.filter((t) => t.projectId === project.id);
+      if (projectTasks.length === 0) return [];
+      return [
+        { kind: "project", project },
+        ...projectTasks.map((task): Row => ({ kind: "task", task })),
+      ];
+    });
+  }, [tasks, projects, groupByProject]);
+
+  // Pad the visible range by a unit either side and always include today,
+  // so there is room to drag bars past the current extremes.
+  const range = useMemo(() => {
+    const spans = tasks.map(getSpan);
+    const today = new Date();
+    const first = min([today, ...spans.map((s) => s.start)]);
+    const last = max([today, ...spans.map((s) => s.end)]);
+    if (zoom === "month") {
+      return {
+        start: startOfMonth(addDays(startOfMonth(first), -1)),
+        end: endOfMonth(addDays(endOfMonth(last), 1)),
+      };
+    }
+    return {
+      start: startOfWeek(addDays(first, -7)),
+      end: endOfWeek(addDays(last, 7)),
+    };
+  }, [tasks, zoom]);
+
+  const ticks = useMemo(() => {
+    if (zoom === "day") {
+      return eachDayOfInterval(range).map((date) => ({
+        date,
+        label: format(date, date.getDate() === 1 ? "MMM d" : "d"),
+      }));
+    }
+    if (zoom === "week") {
+      return eachWeekOfInterval(range).map((date) => ({
+        date,
+        label: format(date, "MMM d"),
+      }));
+    }
+    return eachMonthOfInterval(range).map((date) => ({
+      date,
+      label: format(date, "MMM yyyy"),
+    }));
+  }, [range, zoom]);
+
+  const x = (date: Date) =>
+    differenceInCalendarDays(date, range.start) * dayWidth;
+  const width =
+    (differenceInCalendarDays(range.end, range.start) + 1) * dayWidth;
+
+  const spanOf = (task: Task) =>
+    drag?.taskId === task.id ? shiftSpan(getSpan(task), drag) : getSpan(task);
+
+  const rowIndex = new Map(
+    rows.flatMap((row, index) =>
+      row.kind === "task" ? [[row.task.id, index] as const] : []
+    )
+  );
+
+  const arrows = rows.flatMap((row) => {
+    if (row.kind !== "task") return [];
+    const { task } = row;
+    return task.blockedBy
+      .filter((id) => rowIndex.has(id))
+      .map((blockerId) => {
+        const blocker = tasks.find((t) => t.id === blockerId)!;
+        const from = spanOf(blocker);
+        const to = spanOf(task);
+        const x1 = x(from.end) + dayWidth;
+        const y1 = rowIndex.get(blockerId)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+        const x2 = x(to.start);
+        const y2 = rowIndex.get(task.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+        return {
+          id: `${blockerId}-${task.id}`,
+          path: `M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`,
+          // The blocker is scheduled to finish after this task starts.
+          conflict: from.end >= to.start,
+        };
+      });
+  });
+
+  const handlePointerDown = (
+    event: PointerEvent<HTMLDivElement>,
+    task: Task
+  ) => {
+    if (readOnly) return;
+    const edge = (event.target as HTMLElement).dataset.edge;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      taskId: task.id,
+      edge: edge === "start" || edge === "end" ? edge : "move",
+      originX: event.clientX,
+      days: 0,
+    });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const days = Math.round((event.clientX - drag.originX) / dayWidth);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const handlePointerUp = (task: Task) => {
+    if (!drag) return;
+    setDrag(null);
+    if (drag.days === 0) return;
+
+    const span = shiftSpan(getSpan(task), drag);
+    updateTask(task.id, {
+      startDate: toDateKey(span.start),
+      dueDate: toDateKey(span.end),
+    });
+    toast({
+      title: "Task rescheduled",
+      description: `${task.title}: ${format(span.start, "MMM d")} – ${format(span.end, "MMM d, yyyy")}`,
+      action: undoAction(),
+    });
+  };
+
+  if (tasks.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No tasks to schedule
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Tabs value={zoom} onValueChange={(value) => setZoom(value as Zoom)}>
+          <TabsList>
+            {(Object.keys(zoomLevels) as Zoom[]).map((level) => (
+              <TabsTrigger key={level} value={level}>
+                {zoomLevels[level].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="flex rounded-lg border border-border overflow-hidden">
+        {/* Task names */}
+        <div className="w-56 shrink-0 border-r border-border bg-card">
+          <div
+            className="border-b border-border px-3 flex items-center text-xs font-medium text-muted-foreground"
+            style={{ height: HEADER_HEIGHT }}
+          >
+            Task
+          </div>
+          {rows.map((row) =>
+            row.kind === "project" ? (
+              <div
+                key={`project-${row.project.id}`}
+                className="flex items-center gap-2 px-3 text-sm font-semibold text-foreground bg-secondary/50"
+                style={{ height: ROW_HEIGHT }}
+              >
+                <span
+                  className="h-2.5 w-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: row.project.color }}
+                />
+                <span className="truncate">{row.project.name}</span>
+              </div>
+            ) : (
+              <div
+                key={row.task.id}
+                className="flex items-center px-3 text-sm"
+                style={{ height: ROW_HEIGHT }}
+              >
+                <Link
+                  to={linkTo(row.task)}
+                  className="truncate text-foreground hover:underline"
+                >
+                  {row.task.title}
+                </Link>
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Chart */}
+        <div className="flex-1 overflow-x-auto">
+          <div className="relative" style={{ width }}>
+            <div
+              className="relative border-b border-border"
+              style={{ height: HEADER_HEIGHT }}
+            >
+              {ticks.map((tick) => (
+                <span
+                  key={tick.date.toISOString()}
+                  className="absolute top-0 h-full border-l border-border pl-1 pt-3 text-[11px] text-muted-foreground whitespace-nowrap"
+                  style={{ left: x(tick.date) }}
+                >
+                  {tick.label}
+                </span>
+              ))}
+            </div>
+
+            <div
+              className="relative"
+              style={{ height: rows.length * ROW_HEIGHT }}
+            >
+              {ticks.map((tick) => (
+                <div
+                  key={tick.date.toISOString()}
+                  className="absolute top-0 h-full border-l border-border/50"
+                  style={{ left: x(tick.date) }}
+                />
+              ))}
+              <div
+                className="absolute top-0 h-full w-px bg-primary"
+                style={{ left: x(new Date()) + dayWidth / 2 }}
+                title="Today"
+              />
+
+              {rows.map((row, index) => {
+                if (row.kind === "project") {
+                  return (
+                    <div
+                      key={`project-${row.project.id}`}
+                      className="absolute inset-x-0 bg-secondary/50"
+                      style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    />
+                  );
+                }
+                const { task } = row;
+                const span = spanOf(task);
+                const project = projects.find((p) => p.id === task.projectId);
+                const color = project?.color ?? "#6b7280";
+                return (
+                  <div
+                    key={task.id}
+                    className={cn(
+                      "group absolute flex items-center rounded-md text-xs font-medium text-white select-none touch-none",
+                      !readOnly && "cursor-grab",
+                      drag?.taskId === task.id &&
+                        "cursor-grabbing ring-2 ring-ring",
+                      isTaskDone(task, projects) && "opacity-50"
+                    )}
+                    style={{
+                      top: index * ROW_HEIGHT + 8,
+                      height: ROW_HEIGHT - 16,
+                      left: x(span.start),
+                      width:
+                        (differenceInCalendarDays(span.end, span.start) + 1) *
+                        dayWidth,
+                      backgroundColor: color,
+                    }}
+                    title={`${task.title}: ${format(span.start, "MMM d")} – ${format(span.end, "MMM d, yyyy")}`}
+                    onPointerDown={(event) => handlePointerDown(event, task)}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => handlePointerUp(task)}
+                    onPointerCancel={() => setDrag(null)}
+                  >
+                    {!readOnly && (
+                      <span
+                        data-edge="start"
+                        className="absolute left-0 h-full w-2 cursor-ew-resize rounded-l-md group-hover:bg-black/20"
+                      />
+                    )}
+                    <span className="truncate px-2 pointer-events-none">
+                      {task.title}
+                    </span>
+                    {!readOnly && (
+                      <span
+                        data-edge="end"
+                        className="absolute right-0 h-full w-2 cursor-ew-resize rounded-r-md group-hover:bg-black/20"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              <svg
+                className="absolute inset-0 pointer-events-none overflow-visible"
+                width={width}
+                height={rows.length * ROW_HEIGHT}
+              >
+                <defs>
+                  {["ok", "conflict"].map((kind) => (
+                    <marker
+                      key={kind}
+                      id={`timeline-arrow-${kind}`}
+                      viewBox="0 0 8 8"
+                      refX="7"
+                      refY="4"
+                      markerWidth="6"
+                      markerHeight="6"
+                      orient="auto"
+                    >
+                      <path
+                        d="M 0 0 L 8 4 L 0 8 z"
+                        className={
+                          kind === "conflict"
+                            ? "fill-destructive"
+                            : "fill-muted-foreground"
+                        }
+                      />
+                    </marker>
+                  ))}
+                </defs>
+                {arrows.map((arrow) => (
+                  <path
+                    key={arrow.id}
+                    d={arrow.path}
+                    fill="none"
+                    strokeWidth={1.5}
+                    markerEnd={`url(#timeline-arrow-${arrow.conflict ? "conflict" : "ok"})`}
+                    className={
+                      arrow.conflict
+                        ? "stroke-destructive"
+                        : "stroke-muted-foreground"
+                    }
+                  />
+                ))}
+              </svg>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
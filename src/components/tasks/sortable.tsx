@@ -0,0 +1,74 @@
+import type { KeyboardEvent, ReactNode } from "react";
+import { useDroppable } from "@dnd-kit/core";
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { cn } from "@/lib/utils";
+
+interface SortableItemProps {
+  id: string;
+  children: ReactNode;
+  className?: string;
+}
+
+export function SortableItem({ id, children, className }: SortableItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
+
+  // Keys pressed inside the card (e.g. on its menu button) must not pick the
+  // card up; only the card itself acts as the keyboard drag handle.
+  const onKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.target === event.currentTarget) {
+      listeners?.onKeyDown?.(event);
+    }
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(
+        "touch-none rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        isDragging && "opacity-40",
+        className
+      )}
+      {...attributes}
+      {...listeners}
+      onKeyDown={onKeyDown}
+    >
+      {children}
+    </div>
+  );
+}
+
+interface DroppableColumnProps {
+  id: string;
+  children: ReactNode;
+  className?: string;
+}
+
+export function DroppableColumn({
+  id,
+  children,
+  className,
+}: DroppableColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "rounded-lg transition-colors",
+        isOver && "bg-primary/5",
+        className
+      )}
+    >
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { useStore } from "@/store/useStore";
+import { adapter } from "@/store/adapters";
+
+/**
+ * The signed-in user's calendar subscription URL, when the backend can
+ * serve one. Nothing is requested until `enabled` is set.
+ */
+export function useCalendarFeed(enabled: boolean) {
+  const user = useStore((state) => state.user);
+  const supported = !!adapter.calendarFeedUrl;
+
+  const { data, isError } = useQuery({
+    queryKey: ["calendar-feed", user?.id],
+    queryFn: () => adapter.calendarFeedUrl!(),
+    enabled: enabled && supported && !!user,
+    staleTime: Infinity,
+  });
+
+  return { supported, url: data, failed: isError };
+}
@@ -0,0 +1,28 @@
+import { useState } from "react";
+
+/**
+ * Keyboard selection over the items a page shows, in on-screen order. Items
+ * mark themselves with `data-selection-id` so the selection can be scrolled
+ * into view; a selected item that leaves the list is simply deselected.
+ */
+export function useListSelection(ids: string[]) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected =
+    selectedId !== null && ids.includes(selectedId) ? selectedId : null;
+
+  /** Selects the next item down (1) or up (-1), starting from either end. */
+  const move = (step: 1 | -1) => {
+    if (ids.length === 0) return;
+    const index = selected === null ? -1 : ids.indexOf(selected);
+    const next =
+      index === -1
+        ? ids[step === 1 ? 0 : ids.length - 1]
+        : ids[Math.min(Math.max(index + step, 0), ids.length - 1)];
+    setSelectedId(next);
+    document
+      .querySelector(`[data-selection-id="${CSS.escape(next)}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  };
+
+  return { selectedId: selected, move };
+}
@@ -0,0 +1,11 @@
+import { useStore } from "@/store/useStore";
+
+/**
+ * The command palette's recently used items for the signed-in user, newest
+ * first. Ids of items that no longer exist are skipped by the palette.
+ */
+export function useRecentCommands() {
+  const recent = useStore((state) => state.recentCommands);
+  const remember = useStore((state) => state.rememberCommand);
+  return { recent, remember };
+}
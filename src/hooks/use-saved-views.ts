@@ -0,0 +1,9 @@
+import { useStore } from "@/store/useStore";
+
+/** The signed-in user's saved task views, in the order they were saved. */
+export function useSavedViews() {
+  const views = useStore((state) => state.savedViews);
+  const saveView = useStore((state) => state.saveView);
+  const deleteView = useStore((state) => state.deleteView);
+  return { views, saveView, deleteView };
+}
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { useStore } from "@/store/useStore";
+import { isEditable } from "@/lib/utils";
+import {
+  SEQUENCE_TIMEOUT_MS,
+  isBindableKey,
+  normalizeKey,
+  resolveBindings,
+  shortcutDefinitions,
+} from "@/lib/shortcuts";
+import type { ShortcutId } from "@/lib/shortcuts";
+
+/*
+ * Pages register handlers for the shortcuts they support while mounted; one
+ * listener in the layout turns keystrokes into calls to those handlers. A
+ * shortcut without a handler is inactive, so the same keys can mean
+ * different things on different pages.
+ */
+
+const handlers = new Map<ShortcutId, () => void>();
+const listeners = new Set<() => void>();
+let active: ShortcutId[] = [];
+let publishQueued = false;
+
+// Handlers are swapped on most renders; only tell subscribers once the set
+// of active shortcuts has actually settled and changed.
+const publish = () => {
+  if (publishQueued) return;
+  publishQueued = true;
+  queueMicrotask(() => {
+    publishQueued = false;
+    const next = shortcutDefinitions
+      .map((shortcut) => shortcut.id)
+      .filter((id) => handlers.has(id));
+    if (next.join() === active.join()) return;
+    active = next;
+    listeners.forEach((listener) => listener());
+  });
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/** Runs `handler` when the shortcut's keys are pressed, while `enabled`. */
+export function useShortcut(
+  id: ShortcutId,
+  handler: () => void,
+  enabled = true
+) {
+  useEffect(() => {
+    if (!enabled) return;
+    handlers.set(id, handler);
+    publish();
+    return () => {
+      if (handlers.get(id) === handler) handlers.delete(id);
+      publish();
+    };
+  }, [id, handler, enabled]);
+}
+
+/** Shortcuts that do something on the current page, in definition order. */
+export function useActiveShortcuts() {
+  return useSyncExternalStore(subscribe, () => active);
+}
+
+/** Every shortcut's keys, with the user's changes applied. */
+export function useShortcutBindings() {
+  const overrides = useStore((state) => state.shortcutBindings);
+  return useMemo(() => resolveBindings(overrides), [overrides]);
+}
+
+// Keys meant for an open dialog or menu shouldn't act on the page behind it.
+const hasOpenOverlay = () =>
+  document.querySelector(
+    '[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]'
+  ) !== null;
+
+/** Listens for registered shortcuts; mounted once, by the layout. */
+export function useShortcutListener() {
+  const bindings = useShortcutBindings();
+
+  useEffect(() => {
+    let sequence: string[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const reset = () => {
+      sequence = [];
+      clearTimeout(timer);
+    };
+
+    // Returns whether the keys so far run a shortcut or may still grow
+    // into one.
+    const advance = (keys: string[]) => {
+      const typed = keys.join(" ");
+      const match = active.find((id) => bindings[id] === typed);
+      if (match) {
+        reset();
+        handlers.get(match)?.();
+        return true;
+      }
+      const pending = active.some((id) => bindings[id].startsWith(`${typed} `));
+      if (!pending) return false;
+      sequence = keys;
+      clearTimeout(timer);
+      timer = setTimeout(reset, SEQUENCE_TIMEOUT_MS);
+      return true;
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      if (!isBindableKey(event) || isEditable(event.target)) return;
+      if (hasOpenOverlay()) return;
+      // Enter on a focused button or link belongs to that control.
+      if (
+        event.key === "Enter" &&
+        event.target instanceof HTMLElement &&
+        event.target.closest("a, button, [role='button']")
+      ) {
+        return;
+      }
+      const key = normalizeKey(event.key);
+      let handled = advance([...sequence, key]);
+      // A key that doesn't continue the sequence may start a new one.
+      if (!handled && sequence.length > 0) {
+        reset();
+        handled = advance([key]);
+      }
+      if (handled) {
+        event.preventDefault();
+      } else {
+        reset();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      clearTimeout(timer);
+    };
+  }, [bindings]);
+}
@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { Task } from "@/store/useStore";
+import type { PendingStatusChange } from "@/components/tasks/StatusChangeDialog";
+import { getStatusChangeWarnings } from "@/lib/statusWarnings";
+import { findStatus } from "@/lib/workflow";
+
+/**
+ * Routes status changes through the blocked/open-subtask checks. Changes
+ * with warnings wait in `pending` until the user confirms them.
+ */
+export function useStatusChange(
+  apply: (taskId: string, status: string, order?: number) => void
+) {
+  const { tasks, projects } = useWorkspace();
+  const [pending, setPending] = useState<PendingStatusChange | null>(null);
+
+  const requestStatusChange = (task: Task, status: string, order?: number) => {
+    const warnings = getStatusChangeWarnings(task, status, tasks, projects);
+    if (warnings.length === 0) {
+      apply(task.id, status, order);
+      return;
+    }
+    const project = projects.find((p) => p.id === task.projectId);
+    setPending({
+      taskId: task.id,
+      title: task.title,
+      status,
+      statusName: findStatus(project, status)?.name ?? status,
+      warnings,
+      order,
+    });
+  };
+
+  const confirm = (change: PendingStatusChange) => {
+    apply(change.taskId, change.status, change.order);
+    setPending(null);
+  };
+
+  const cancel = () => setPending(null);
+
+  return { requestStatusChange, pending, confirm, cancel };
+}
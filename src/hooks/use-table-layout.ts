@@ -0,0 +1,11 @@
+import { useStore } from "@/store/useStore";
+
+/**
+ * The signed-in user's task table columns and sort. Every table shares one
+ * layout, so a column hidden on one page stays hidden on the others.
+ */
+export function useTableLayout() {
+  const layout = useStore((state) => state.taskTableLayout);
+  const setLayout = useStore((state) => state.setTaskTableLayout);
+  return { layout, setLayout };
+}
@@ -0,0 +1,136 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { Task } from "@/store/useStore";
+import {
+  matchesQuery,
+  parseTaskQuery,
+  queryFromSelections,
+} from "@/lib/taskQuery";
+import type { QueryContext } from "@/lib/taskQuery";
+
+export interface TaskFilters {
+  search: string;
+  project: string;
+  status: string;
+  priority: string;
+  due: "all" | "overdue";
+}
+
+export const defaultTaskFilters: TaskFilters = {
+  search: "",
+  project: "all",
+  status: "all",
+  priority: "all",
+  due: "all",
+};
+
+// Query string names for each filter. Filters at their default are left
+// out, so an unfiltered view has a clean URL.
+const paramNames: Record<keyof TaskFilters, string> = {
+  search: "q",
+  project: "project",
+  status: "status",
+  priority: "priority",
+  due: "due",
+};
+
+const priorities = ["low", "medium", "high"];
+
+/** The filters encoded in a query string; unknown values read as "all". */
+export const filtersFromParams = (params: URLSearchParams): TaskFilters => {
+  const read = (key: keyof TaskFilters) =>
+    params.get(paramNames[key]) || defaultTaskFilters[key];
+  const priority = read("priority");
+  return {
+    search: read("search"),
+    project: read("project"),
+    status: read("status"),
+    priority: priorities.includes(priority) ? priority : "all",
+    due: read("due") === "overdue" ? "overdue" : "all",
+  };
+};
+
+/**
+ * Writes `filters` into a copy of `params`, leaving any other parameters
+ * alone.
+ */
+export const filtersToParams = (
+  filters: TaskFilters,
+  params = new URLSearchParams()
+) => {
+  const next = new URLSearchParams(params);
+  (Object.keys(paramNames) as (keyof TaskFilters)[]).forEach((key) => {
+    if (filters[key] === defaultTaskFilters[key]) {
+      next.delete(paramNames[key]);
+    } else {
+      next.set(paramNames[key], filters[key]);
+    }
+  });
+  return next;
+};
+
+/**
+ * Tasks matching the filters. The search box holds a task query, and the
+ * dropdowns are turned into query terms too; they're parsed apart so a
+ * half-typed search can't swallow them.
+ */
+export const filterTasks = (
+  tasks: Task[],
+  filters: TaskFilters,
+  context: QueryContext
+) => {
+  const queries = [
+    filters.search,
+    queryFromSelections({
+      project: filters.project,
+      status: filters.status,
+      priority: filters.priority,
+      is: filters.due,
+    }),
+  ].map((query) => parseTaskQuery(query, context.projects));
+  return tasks.filter((task) =>
+    queries.every((query) => matchesQuery(task, query, context))
+  );
+};
+
+/**
+ * The search/project/status/priority/due filters shared by the task views.
+ * They live in the URL's query string, so they survive a reload and can be
+ * shared or saved as a link.
+ */
+export function useTaskFilters() {
+  const { tasks } = useWorkspace({ hideArchived: true });
+  // Blockers and statuses are looked up across the whole workspace.
+  const context = useWorkspace();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(
+    () => filtersFromParams(searchParams),
+    [searchParams]
+  );
+
+  const setFilter = <K extends keyof TaskFilters>(
+    key: K,
+    value: TaskFilters[K]
+  ) =>
+    setSearchParams(
+      (current) =>
+        filtersToParams(
+          { ...filtersFromParams(current), [key]: value },
+          current
+        ),
+      // Each keystroke in the search box shouldn't add a history entry.
+      { replace: key === "search" }
+    );
+
+  const filteredTasks = useMemo(
+    () => filterTasks(tasks, filters, context),
+    [tasks, filters, context]
+  );
+
+  const isFiltered = Object.entries(defaultTaskFilters).some(
+    ([key, value]) => filters[key as keyof TaskFilters] !== value
+  );
+
+  return { filters, setFilter, filteredTasks, isFiltered };
+}
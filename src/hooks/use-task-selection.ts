@@ -0,0 +1,46 @@
+import { useState } from "react";
+
+/**
+ * Checkbox selection over the tasks a view shows, in on-screen order.
+ * Shift-clicking selects everything between the last clicked task and this
+ * one. Tasks that leave the view drop out of the selection.
+ */
+export function useTaskSelection(visibleIds: string[]) {
+  const [picked, setPicked] = useState<string[]>([]);
+  const [anchor, setAnchor] = useState<string | null>(null);
+  const selectedIds = picked.filter((id) => visibleIds.includes(id));
+
+  const toggle = (id: string, range = false) => {
+    const from = anchor === null ? -1 : visibleIds.indexOf(anchor);
+    const to = visibleIds.indexOf(id);
+    // The range takes on the anchor's state, as in file managers.
+    if (range && from !== -1 && to !== -1) {
+      const span = visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      const selecting = selectedIds.includes(anchor!);
+      setPicked(
+        selecting
+          ? [...new Set([...selectedIds, ...span])]
+          : selectedIds.filter((selected) => !span.includes(selected))
+      );
+    } else {
+      setPicked(
+        selectedIds.includes(id)
+          ? selectedIds.filter((selected) => selected !== id)
+          : [...selectedIds, id]
+      );
+    }
+    setAnchor(id);
+  };
+
+  const clear = () => {
+    setPicked([]);
+    setAnchor(null);
+  };
+
+  return {
+    selectedIds,
+    isSelected: (id: string) => selectedIds.includes(id),
+    toggle,
+    clear,
+  };
+}
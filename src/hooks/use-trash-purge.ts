@@ -0,0 +1,17 @@
+import { useEffect } from "react";
+import { useStore } from "@/store/useStore";
+
+/**
+ * Purges trashed items past the retention period whenever the workspace
+ * loads or changes, or the retention period is shortened.
+ */
+export function useTrashPurge() {
+  const projects = useStore((state) => state.projects);
+  const tasks = useStore((state) => state.tasks);
+  const retentionDays = useStore((state) => state.trashRetentionDays);
+  const purgeExpiredTrash = useStore((state) => state.purgeExpiredTrash);
+
+  useEffect(() => {
+    purgeExpiredTrash();
+  }, [projects, tasks, retentionDays, purgeExpiredTrash]);
+}
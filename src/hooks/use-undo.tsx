@@ -0,0 +1,56 @@
+import { useEffect } from "react";
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import { useStore } from "@/store/useStore";
+import { isEditable } from "@/lib/utils";
+
+export const undoLastChange = () => {
+  const label = useStore.getState().undo();
+  if (!label) {
+    toast({ title: "Nothing to undo" });
+    return;
+  }
+  toast({
+    title: `Undid: ${label}`,
+    action: (
+      <ToastAction altText="Redo" onClick={redoLastChange}>
+        Redo
+      </ToastAction>
+    ),
+  });
+};
+
+export const redoLastChange = () => {
+  const label = useStore.getState().redo();
+  toast(
+    label
+      ? { title: `Redid: ${label}`, action: undoAction() }
+      : { title: "Nothing to redo" }
+  );
+};
+
+/** A toast's "Undo" button, for toasts confirming a change just made. */
+export const undoAction = () => (
+  <ToastAction altText="Undo" onClick={undoLastChange}>
+    Undo
+  </ToastAction>
+);
+
+/** Ctrl/Cmd+Z undoes the latest change and Ctrl/Cmd+Shift+Z redoes it. */
+export function useUndoShortcuts() {
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Text fields keep the browser's own undo for what's being typed.
+      if (event.key.toLowerCase() !== "z" || isEditable(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redoLastChange();
+      } else {
+        undoLastChange();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
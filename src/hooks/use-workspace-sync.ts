@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { useIsMutating, useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useStore } from "@/store/useStore";
+import { adapter } from "@/store/adapters";
+import { workspaceQueryKey } from "@/store/sync";
+
+/**
+ * Keeps the store in step with a remote backend. Local storage needs no
+ * syncing, so the query stays disabled unless a remote adapter is active.
+ */
+export function useWorkspaceSync() {
+  const user = useStore((state) => state.user);
+
+  const { data } = useQuery({
+    queryKey: [...workspaceQueryKey, user?.id],
+    queryFn: () => adapter.fetchWorkspace(user!),
+    enabled: adapter.remote && !!user,
+  });
+
+  useEffect(() => {
+    // A refetch that lands while mutations are in flight would wipe their
+    // optimistic changes; the next settled mutation refetches anyway.
+    if (data && queryClient.isMutating() === 0) {
+      useStore.setState(data);
+    }
+  }, [data]);
+}
+
+/** Whether changes are still on their way to a remote backend. */
+export function useSavingChanges() {
+  return useIsMutating({ mutationKey: workspaceQueryKey }) > 0;
+}
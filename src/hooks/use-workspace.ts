@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import { useStore } from "@/store/useStore";
+import { withoutTrash } from "@/lib/trash";
+import { withoutArchived } from "@/lib/archive";
+
+interface UseWorkspaceOptions {
+  /** Leave out archived projects and their tasks too. */
+  hideArchived?: boolean;
+}
+
+/**
+ * The projects and tasks views should show: everything except what's in the
+ * trash. Only the Trash page and bookkeeping need the store's full lists.
+ */
+export function useWorkspace({
+  hideArchived = false,
+}: UseWorkspaceOptions = {}) {
+  const projects = useStore((state) => state.projects);
+  const tasks = useStore((state) => state.tasks);
+  return useMemo(() => {
+    const live = withoutTrash(projects, tasks);
+    return hideArchived ? withoutArchived(live.projects, live.tasks) : live;
+  }, [projects, tasks, hideArchived]);
+}
@@ -0,0 +1,81 @@
+import type { ActivityEntry, FieldChange } from "@/store/useStore";
+
+/** Oldest entries are dropped beyond this, keeping localStorage in bounds. */
+export const MAX_ACTIVITY_ENTRIES = 500;
+
+/** Edits by one person to one entity within this window fold together. */
+const COMPACT_WINDOW_MS = 5 * 60 * 1000;
+
+// Bookkeeping fields that change as a side effect and aren't worth a line.
+const IGNORED_FIELDS = new Set(["id", "order", "statusHistory", "createdAt"]);
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/** Field-level before/after pairs for the keys `after` sets. */
+export const diffFields = <T extends object>(
+  before: T,
+  after: Partial<T>
+): FieldChange[] =>
+  Object.entries(after)
+    .filter(([field]) => !IGNORED_FIELDS.has(field))
+    .filter(([field, value]) => !isEqual(before[field as keyof T], value))
+    .map(([field, value]) => ({
+      field,
+      before: before[field as keyof T] ?? null,
+      after: value ?? null,
+    }));
+
+const mergeChanges = (
+  earlier: FieldChange[],
+  later: FieldChange[]
+): FieldChange[] => {
+  const merged = new Map(earlier.map((change) => [change.field, change]));
+  later.forEach((change) => {
+    const first = merged.get(change.field);
+    merged.set(change.field, {
+      ...change,
+      before: first?.before ?? change.before,
+    });
+  });
+  return [...merged.values()].filter((c) => !isEqual(c.before, c.after));
+};
+
+/**
+ * Appends `entry` to the log, newest last. A quick succession of updates to
+ * the same entity by the same actor is compacted into the latest entry, and
+ * the log is capped at {@link MAX_ACTIVITY_ENTRIES}.
+ *
+ * Returns the entry as stored and, when compaction happened, the entry it
+ * replaced so the change can be rolled back.
+ */
+export const appendActivity = (log: ActivityEntry[], entry: ActivityEntry) => {
+  const last = log[log.length - 1];
+  const compacts =
+    last &&
+    entry.action === "updated" &&
+    last.action === "updated" &&
+    last.entityId === entry.entityId &&
+    last.actorId === entry.actorId &&
+    new Date(entry.at).getTime() - new Date(last.at).getTime() <
+      COMPACT_WINDOW_MS;
+
+  if (compacts) {
+    const merged: ActivityEntry = {
+      ...entry,
+      id: last.id,
+      changes: mergeChanges(last.changes, entry.changes),
+    };
+    return {
+      log: [...log.slice(0, -1), merged],
+      entry: merged,
+      replaced: last,
+    };
+  }
+
+  return {
+    log: [...log, entry].slice(-MAX_ACTIVITY_ENTRIES),
+    entry,
+    replaced: undefined,
+  };
+};
@@ -0,0 +1,55 @@
+import type { Project, Task } from "@/store/useStore";
+import { findStatus, getWorkflow } from "./workflow";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const time = (iso: string) => new Date(iso).getTime();
+
+/**
+ * The status a task held at `at` (epoch ms), or undefined if it didn't exist
+ * yet. Tasks without recorded history are assumed to have held their current
+ * status since creation.
+ */
+export const getStatusAt = (task: Task, at: number) => {
+  if (time(task.createdAt) > at) return undefined;
+  let status = task.statusHistory[0]?.status ?? task.status;
+  for (const entry of task.statusHistory) {
+    if (time(entry.at) > at) break;
+    status = entry.status;
+  }
+  return status;
+};
+
+/** Whether `status` counts as done in the workflow of the task's project. */
+export const isDoneStatus = (task: Task, status: string, projects: Project[]) =>
+  findStatus(
+    projects.find((p) => p.id === task.projectId),
+    status
+  )?.isDone ?? false;
+
+/** Moments (epoch ms) at which the task entered a done status. */
+export const getCompletionTimes = (task: Task, projects: Project[]) => {
+  const times: number[] = [];
+  let wasDone = false;
+  task.statusHistory.forEach((entry) => {
+    const done = isDoneStatus(task, entry.status, projects);
+    if (done && !wasDone) times.push(time(entry.at));
+    wasDone = done;
+  });
+  return times;
+};
+
+/**
+ * Time from the task first leaving its workflow's opening status (or from
+ * creation, if it skipped straight ahead) to its latest completion.
+ */
+export const getCycleTime = (task: Task, projects: Project[]) => {
+  const completedAt = getCompletionTimes(task, projects).at(-1);
+  if (completedAt === undefined) return undefined;
+  const project = projects.find((p) => p.id === task.projectId);
+  const opening = getWorkflow(project)[0]?.id;
+  const started = task.statusHistory.find(
+    (entry) => entry.status !== opening && time(entry.at) <= completedAt
+  );
+  return completedAt - time(started?.at ?? task.createdAt);
+};
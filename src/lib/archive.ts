@@ -0,0 +1,13 @@
+import type { Project, Task } from "@/store/useStore";
+
+export const isArchived = (project: Project | undefined) =>
+  !!project?.archivedAt;
+
+/** Active projects and the tasks that belong to them. */
+export const withoutArchived = (projects: Project[], tasks: Task[]) => {
+  const archived = new Set(projects.filter(isArchived).map((p) => p.id));
+  return {
+    projects: projects.filter((p) => !archived.has(p.id)),
+    tasks: tasks.filter((t) => !archived.has(t.projectId)),
+  };
+};
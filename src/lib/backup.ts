@@ -0,0 +1,338 @@
+import { z } from "zod";
+import type { ActivityEntry, Task, User } from "@/store/useStore";
+import type { Workspace } from "@/store/workspace";
+import { diffById } from "@/store/history";
+import { MAX_ACTIVITY_ENTRIES } from "./activity";
+import { wouldCreateCycle } from "./dependencies";
+import { getWorkflow } from "./workflow";
+
+const BACKUP_FORMAT = "promanage-backup";
+
+/**
+ * Bumped whenever the shape of a backup changes in a way older readers
+ * can't follow. Only files of this exact version are accepted.
+ */
+export const BACKUP_VERSION = 1;
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected yyyy-MM-dd");
+
+const workflowStatusSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  color: z.string(),
+  isDone: z.boolean(),
+});
+
+const projectSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  color: z.string(),
+  createdAt: z.string(),
+  statuses: z.array(workflowStatusSchema).min(1),
+  deletedAt: z.string().optional(),
+  archivedAt: z.string().optional(),
+});
+
+const taskSchema = z.object({
+  id: z.string().min(1),
+  projectId: z.string().min(1),
+  title: z.string(),
+  description: z.string(),
+  status: z.string(),
+  priority: z.enum(["low", "medium", "high"]),
+  dueDate: dateKey,
+  startDate: z.union([dateKey, z.literal("")]).optional(),
+  createdAt: z.string(),
+  order: z.number(),
+  parentId: z.string().optional(),
+  checklist: z.array(
+    z.object({ id: z.string(), text: z.string(), done: z.boolean() })
+  ),
+  blockedBy: z.array(z.string()),
+  statusHistory: z.array(z.object({ status: z.string(), at: z.string() })),
+  deletedAt: z.string().optional(),
+});
+
+const activitySchema = z.object({
+  id: z.string().min(1),
+  actorId: z.string(),
+  actorName: z.string(),
+  action: z.enum(["created", "updated", "deleted", "restored"]),
+  entityType: z.enum(["project", "task"]),
+  entityId: z.string(),
+  entityName: z.string(),
+  projectId: z.string(),
+  changes: z.array(
+    z
+      .object({ field: z.string(), before: z.unknown(), after: z.unknown() })
+      // The log records missing values as null.
+      .transform(({ field, before, after }) => ({
+        field,
+        before: before ?? null,
+        after: after ?? null,
+      }))
+  ),
+  at: z.string(),
+});
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string(),
+  exportedBy: z.object({ name: z.string(), email: z.string() }).optional(),
+  settings: z
+    .object({
+      theme: z.enum(["light", "dark"]),
+      trashRetentionDays: z.number().int().min(0),
+    })
+    .partial()
+    .optional(),
+  workspace: z
+    .object({
+      projects: z.array(projectSchema),
+      tasks: z.array(taskSchema),
+      activity: z.array(activitySchema),
+    })
+    .superRefine(({ projects, tasks }, ctx) => {
+      const projectsById = new Map(projects.map((p) => [p.id, p]));
+      const tasksById = new Map(tasks.map((t) => [t.id, t]));
+      tasks.forEach((task, index) => {
+        const issue = (path: (string | number)[], message: string) =>
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["tasks", index, ...path],
+            message: `Task "${task.title}" ${message}`,
+          });
+
+        const project = projectsById.get(task.projectId);
+        if (!project) {
+          issue(["projectId"], "belongs to a project missing from the backup");
+        } else if (!project.statuses.some((s) => s.id === task.status)) {
+          issue(["status"], `has a status not in "${project.name}"'s workflow`);
+        }
+
+        if (task.parentId !== undefined) {
+          const parent = tasksById.get(task.parentId);
+          // Walking up from the parent must end without coming back here.
+          const ancestors = new Set<string>();
+          let ancestor = parent;
+          while (ancestor && !ancestors.has(ancestor.id)) {
+            ancestors.add(ancestor.id);
+            ancestor = ancestor.parentId
+              ? tasksById.get(ancestor.parentId)
+              : undefined;
+          }
+          if (!parent) {
+            issue(
+              ["parentId"],
+              "is a subtask of a task missing from the backup"
+            );
+          } else if (parent.projectId !== task.projectId) {
+            issue(["parentId"], "is a subtask of a task in another project");
+          } else if (ancestors.has(task.id)) {
+            issue(["parentId"], "is its own ancestor");
+          }
+        }
+
+        task.blockedBy.forEach((blockerId, blockerIndex) => {
+          if (blockerId === task.id) {
+            issue(["blockedBy", blockerIndex], "is blocked by itself");
+          } else if (!tasksById.has(blockerId)) {
+            issue(
+              ["blockedBy", blockerIndex],
+              "is blocked by a task missing from the backup"
+            );
+          } else if (wouldCreateCycle(tasks, task.id, blockerId)) {
+            issue(
+              ["blockedBy", blockerIndex],
+              "is blocked by a task that waits on it in turn"
+            );
+          }
+        });
+      });
+    }),
+});
+
+type BackupFile = z.infer<typeof backupSchema>;
+
+export interface Backup {
+  exportedAt: string;
+  exportedBy?: BackupFile["exportedBy"];
+  settings: NonNullable<BackupFile["settings"]>;
+  workspace: Workspace;
+}
+
+export type BackupParseResult =
+  { ok: true; backup: Backup } | { ok: false; error: string };
+
+export const createBackup = (
+  workspace: Workspace,
+  user: User | null,
+  settings: Backup["settings"]
+) =>
+  JSON.stringify(
+    {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      exportedBy: user ? { name: user.name, email: user.email } : undefined,
+      settings,
+      workspace,
+    },
+    null,
+    2
+  );
+
+const describeIssue = (issue: z.ZodIssue) =>
+  issue.path.length > 0
+    ? `${issue.path.join(".")}: ${issue.message}`
+    : issue.message;
+
+/**
+ * Reads a backup file. The format and version are checked before anything
+ * else so files from other apps or other versions get a clear explanation
+ * instead of a list of field errors.
+ */
+export const parseBackup = (text: string): BackupParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file isn't valid JSON." };
+  }
+
+  const header = z
+    .object({ format: z.unknown(), version: z.unknown() })
+    .safeParse(data);
+  if (!header.success || header.data.format !== BACKUP_FORMAT) {
+    return { ok: false, error: "The file isn't a ProManage backup." };
+  }
+  if (header.data.version !== BACKUP_VERSION) {
+    const version = header.data.version;
+    const newer = typeof version === "number" && version > BACKUP_VERSION;
+    return {
+      ok: false,
+      error: newer
+        ? `This backup uses version ${version} of the backup format, which is newer than this app supports (version ${BACKUP_VERSION}). Update ProManage and try again.`
+        : `This backup uses version ${String(version)} of the backup format, which this app can't read (it expects version ${BACKUP_VERSION}).`,
+    };
+  }
+
+  const parsed = backupSchema.safeParse(data);
+  if (!parsed.success) {
+    const [first, ...rest] = parsed.error.issues;
+    const more =
+      rest.length > 0
+        ? ` (and ${rest.length} more problem${rest.length === 1 ? "" : "s"})`
+        : "";
+    return {
+      ok: false,
+      error: `The backup is damaged: ${describeIssue(first)}${more}.`,
+    };
+  }
+
+  const { exportedAt, exportedBy, settings, workspace } = parsed.data;
+  return {
+    ok: true,
+    backup: {
+      exportedAt,
+      exportedBy,
+      settings: settings ?? {},
+      workspace,
+    },
+  };
+};
+
+export type ImportMode = "merge" | "replace";
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]) => {
+  const replacements = new Map(incoming.map((item) => [item.id, item]));
+  const ids = new Set(current.map((item) => item.id));
+  return [
+    ...current.map((item) => replacements.get(item.id) ?? item),
+    ...incoming.filter((item) => !ids.has(item.id)),
+  ];
+};
+
+/**
+ * The activity log after an import: entries from both sides, oldest first.
+ * History is never dropped by an import, even when replacing.
+ */
+export const mergeActivity = (
+  current: ActivityEntry[],
+  incoming: ActivityEntry[]
+) =>
+  mergeById(current, incoming)
+    .sort((a, b) => a.at.localeCompare(b.at))
+    .slice(-MAX_ACTIVITY_ENTRIES);
+
+/**
+ * `task` moved onto its project's new workflow if its status isn't in it:
+ * to the first status that is done or open like its old one was.
+ */
+const fitWorkflow = (
+  task: Task,
+  before: Workspace["projects"],
+  after: Workspace["projects"]
+): Task => {
+  const workflow = getWorkflow(after.find((p) => p.id === task.projectId));
+  if (workflow.some((s) => s.id === task.status)) return task;
+  const wasDone =
+    getWorkflow(before.find((p) => p.id === task.projectId)).find(
+      (s) => s.id === task.status
+    )?.isDone ?? false;
+  const status = (workflow.find((s) => s.isDone === wasDone) ?? workflow[0]).id;
+  return {
+    ...task,
+    status,
+    statusHistory: [
+      ...task.statusHistory,
+      { status, at: new Date().toISOString() },
+    ],
+  };
+};
+
+/**
+ * The projects and tasks an import leaves behind. Merging keeps everything
+ * and lets the backup win where both have the same item; replacing keeps
+ * only what's in the backup. When a merge brings in a project's workflow,
+ * its tasks that aren't in the backup are moved onto it.
+ */
+export const applyImport = (
+  current: Pick<Workspace, "projects" | "tasks">,
+  incoming: Pick<Workspace, "projects" | "tasks">,
+  mode: ImportMode
+) => {
+  if (mode === "replace") {
+    return { projects: incoming.projects, tasks: incoming.tasks };
+  }
+  const projects = mergeById(current.projects, incoming.projects);
+  return {
+    projects,
+    tasks: mergeById(current.tasks, incoming.tasks).map((task) =>
+      fitWorkflow(task, current.projects, projects)
+    ),
+  };
+};
+
+/** Counts of what an import would add, overwrite and remove. */
+export const previewImport = (
+  current: Pick<Workspace, "projects" | "tasks">,
+  incoming: Pick<Workspace, "projects" | "tasks">,
+  mode: ImportMode
+) => {
+  const result = applyImport(current, incoming, mode);
+  const count = <T extends { id: string }>(from: T[], to: T[]) => {
+    const diff = diffById(from, to);
+    return {
+      added: diff.added.length,
+      updated: diff.changed.length,
+      removed: diff.removed.length,
+    };
+  };
+  return {
+    projects: count(current.projects, result.projects),
+    tasks: count(current.tasks, result.tasks),
+  };
+};
@@ -0,0 +1,106 @@
+import type { Project, Task, TaskUpdate } from "@/store/useStore";
+import { getDescendantIds } from "./subtasks";
+import { findStatus, getWorkflow } from "./workflow";
+import { getStatusChangeWarnings } from "./statusWarnings";
+
+/**
+ * Moves the selected tasks to `status`. Tasks whose project has no such
+ * status in its workflow are left alone and counted as skipped.
+ */
+export const planStatusChange = (
+  selected: Task[],
+  projects: Project[],
+  status: string
+) => {
+  const updates: TaskUpdate[] = [];
+  let skipped = 0;
+  selected.forEach((task) => {
+    const project = projects.find((p) => p.id === task.projectId);
+    if (!findStatus(project, status)) {
+      skipped += 1;
+    } else if (task.status !== status) {
+      updates.push({ id: task.id, changes: { status } });
+    }
+  });
+  return { updates, skipped };
+};
+
+/**
+ * The status warnings for each task a bulk status change would move. They
+ * are judged as if the whole change had gone through, so completing a
+ * parent along with its subtasks, or a blocker along with what it blocks,
+ * doesn't warn about each other.
+ */
+export const getBulkStatusWarnings = (
+  updates: TaskUpdate[],
+  tasks: Task[],
+  projects: Project[]
+) => {
+  const after = tasks.map((task) => {
+    const update = updates.find((u) => u.id === task.id);
+    return update ? { ...task, ...update.changes } : task;
+  });
+  return updates.flatMap(({ id, changes }) => {
+    const task = tasks.find((t) => t.id === id);
+    if (!task || !changes.status) return [];
+    const warnings = getStatusChangeWarnings(
+      task,
+      changes.status,
+      after,
+      projects
+    );
+    return warnings.length > 0 ? [{ id, title: task.title, warnings }] : [];
+  });
+};
+
+/**
+ * Sets the same field on every selected task that doesn't have it already.
+ * A new due date before a task's start date takes the start date along.
+ */
+export const planFieldChange = (
+  selected: Task[],
+  changes: Pick<Partial<Task>, "priority" | "dueDate">
+): TaskUpdate[] =>
+  selected.flatMap((task) => {
+    const { priority = task.priority, dueDate = task.dueDate } = changes;
+    if (priority === task.priority && dueDate === task.dueDate) return [];
+    const startDate =
+      task.startDate && task.startDate > dueDate ? dueDate : task.startDate;
+    return [{ id: task.id, changes: { priority, dueDate, startDate } }];
+  });
+
+/**
+ * Moves the selected tasks to `project`, subtasks included. Statuses carry
+ * over where the project's workflow has them and otherwise start again at
+ * its first status. A subtask whose parent stays behind in another project
+ * becomes a top-level task.
+ */
+export const planProjectMove = (
+  tasks: Task[],
+  selectedIds: string[],
+  project: Project
+): TaskUpdate[] => {
+  const moving = new Set(
+    selectedIds.flatMap((id) => [id, ...getDescendantIds(tasks, id)])
+  );
+  const workflow = getWorkflow(project);
+  return tasks
+    .filter(
+      (t) => moving.has(t.id) && !t.deletedAt && t.projectId !== project.id
+    )
+    .map((task) => {
+      const parent = tasks.find((t) => t.id === task.parentId);
+      const keepsParent =
+        !parent || moving.has(parent.id) || parent.projectId === project.id;
+      return {
+        id: task.id,
+        changes: {
+          projectId: project.id,
+          status: findStatus(project, task.status)
+            ? task.status
+            : workflow[0].id,
+          ...(keepsParent ? {} : { parentId: undefined }),
+        },
+      };
+    });
+};
@@ -0,0 +1,78 @@
+/*
+ * Minimal RFC 4180 CSV: comma-separated, double-quoted cells where needed,
+ * quotes escaped by doubling. Enough for what spreadsheets export and import.
+ */
+
+// Spreadsheets run cells starting with these as formulas, so a task titled
+// `=HYPERLINK(...)` could do something when the export is opened. A leading
+// apostrophe makes them read as text.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const escapeCell = (cell: string) => {
+  const value = FORMULA_TRIGGER.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * A cell as it was before `toCsv` guarded it, so exported files import back
+ * unchanged. Only an apostrophe in front of a formula trigger is removed.
+ */
+export const unescapeCell = (cell: string) =>
+  cell.startsWith("'") && FORMULA_TRIGGER.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+
+/**
+ * Serializes rows with CRLF line endings. A byte-order mark is prepended so
+ * Excel reads the file as UTF-8 instead of the system code page.
+ */
+export const toCsv = (rows: string[][]) =>
+  "\uFEFF" +
+  rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") +
+  "\r\n";
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may span lines; blank
+ * lines are dropped. An unterminated quote runs to the end of the file
+ * rather than failing, which is what spreadsheets do too.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+};
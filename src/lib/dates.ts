@@ -0,0 +1,13 @@
+import { format } from "date-fns";
+
+/** Task dates are stored as plain yyyy-MM-dd strings. */
+export const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Parses a yyyy-MM-dd string as a local day. `new Date(key)` would read it
+ * as UTC midnight and land on the previous day west of Greenwich.
+ */
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
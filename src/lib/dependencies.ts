@@ -0,0 +1,44 @@
+import type { Project, Task } from "@/store/useStore";
+import { isTaskDone } from "./workflow";
+
+/** Tasks that must finish before `task` can start. Deleted ones drop out. */
+export const getBlockers = (task: Task, tasks: Task[]) =>
+  (task.blockedBy ?? [])
+    .map((id) => tasks.find((t) => t.id === id))
+    .filter((t): t is Task => !!t);
+
+/** Tasks waiting on `taskId`, i.e. the other side of "blocked by". */
+export const getBlockedTasks = (tasks: Task[], taskId: string) =>
+  tasks.filter((t) => t.blockedBy?.includes(taskId));
+
+export const getOpenBlockers = (
+  task: Task,
+  tasks: Task[],
+  projects: Project[]
+) => getBlockers(task, tasks).filter((t) => !isTaskDone(t, projects));
+
+export const isBlocked = (task: Task, tasks: Task[], projects: Project[]) =>
+  getOpenBlockers(task, tasks, projects).length > 0;
+
+/**
+ * Whether making `taskId` wait on `blockerId` would close a loop, i.e. the
+ * blocker already (transitively) waits on `taskId`.
+ */
+export const wouldCreateCycle = (
+  tasks: Task[],
+  taskId: string,
+  blockerId: string
+) => {
+  if (taskId === blockerId) return true;
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  const stack = [blockerId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+  return false;
+};
@@ -0,0 +1,13 @@
+/** Hands `content` to the browser as a file download. */
+export const downloadFile = (
+  filename: string,
+  content: string,
+  type = "text/plain"
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+/*
+ * The rules behind the project and task editors. Importers validate against
+ * the same schemas so nothing gets in that the forms would have refused.
+ */
+
+export const projectSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Project name is required")
+    .max(50, "Name must be less than 50 characters"),
+  description: z
+    .string()
+    .max(200, "Description must be less than 200 characters"),
+  color: z.string(),
+});
+
+export type ProjectForm = z.infer<typeof projectSchema>;
+
+export const projectColors = [
+  "#6366f1",
+  "#8b5cf6",
+  "#ec4899",
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+];
+
+export const taskSchema = z
+  .object({
+    title: z
+      .string()
+      .min(1, "Task title is required")
+      .max(100, "Title must be less than 100 characters"),
+    description: z
+      .string()
+      .max(500, "Description must be less than 500 characters"),
+    status: z.string().min(1, "Status is required"),
+    priority: z.enum(["low", "medium", "high"], {
+      errorMap: () => ({ message: "Priority must be low, medium or high" }),
+    }),
+    startDate: z.string(),
+    dueDate: z.string().min(1, "Due date is required"),
+  })
+  .refine((data) => !data.startDate || data.startDate <= data.dueDate, {
+    message: "Start date must be on or before the due date",
+    path: ["startDate"],
+  });
+
+export type TaskForm = z.infer<typeof taskSchema>;
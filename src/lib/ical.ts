@@ -0,0 +1,42 @@
+import type { Project, Task } from "@/store/useStore";
+import { buildIcs } from "../../shared/ical";
+import type { IcsEntryType } from "../../shared/ical";
+import { findStatus, getWorkflow } from "./workflow";
+
+/*
+ * RFC 5545 iCalendar export of task due dates. The file itself is built by
+ * shared/ical.js, which the mock API's subscription feed uses too.
+ */
+
+export type { IcsEntryType };
+
+export interface IcsOptions {
+  type: IcsEntryType;
+  calendarName: string;
+  includeCompleted: boolean;
+}
+
+/** Tasks as an iCalendar file, one entry per task on its due date. */
+export const tasksToIcs = (
+  tasks: Task[],
+  projects: Project[],
+  { type, calendarName, includeCompleted }: IcsOptions
+) =>
+  buildIcs(
+    tasks.flatMap((task) => {
+      const project = projects.find((p) => p.id === task.projectId);
+      const done = findStatus(project, task.status)?.isDone ?? false;
+      if (done && !includeCompleted) return [];
+      return [
+        {
+          task,
+          projectName: project?.name,
+          done,
+          // The first status of a workflow is "not started"; anything after
+          // it and before done counts as in progress.
+          started: getWorkflow(project)[0]?.id !== task.status,
+        },
+      ];
+    }),
+    { type, calendarName }
+  );
@@ -0,0 +1,207 @@
+import { z } from "zod";
+import {
+  buildWorkflow,
+  checkBoard,
+  createTally,
+  looksDone,
+  parseJson,
+  readPriority,
+} from "./shared";
+import type { BoardParseResult, ImportedProject, ImportedTask } from "./shared";
+
+const ref = z.object({ gid: z.string(), name: z.string().default("") });
+
+interface AsanaTask {
+  gid: string;
+  name: string;
+  notes: string;
+  completed: boolean;
+  due_on?: string | null;
+  start_on?: string | null;
+  memberships: {
+    project?: z.infer<typeof ref> | null;
+    section?: z.infer<typeof ref> | null;
+  }[];
+  projects: z.infer<typeof ref>[];
+  tags: { name: string }[];
+  assignee?: { name?: string } | null;
+  custom_fields: {
+    name: string;
+    display_value?: string | null;
+    enum_value?: { name: string } | null;
+  }[];
+  parent?: { gid: string } | null;
+  subtasks: AsanaTask[];
+}
+
+const taskSchema: z.ZodType<AsanaTask, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.object({
+    gid: z.string(),
+    name: z.string(),
+    notes: z.string().default(""),
+    completed: z.boolean().default(false),
+    due_on: z.string().nullish(),
+    start_on: z.string().nullish(),
+    memberships: z
+      .array(z.object({ project: ref.nullish(), section: ref.nullish() }))
+      .default([]),
+    projects: z.array(ref).default([]),
+    tags: z.array(z.object({ name: z.string() })).default([]),
+    assignee: z.object({ name: z.string().optional() }).nullish(),
+    custom_fields: z
+      .array(
+        z.object({
+          name: z.string(),
+          display_value: z.string().nullish(),
+          enum_value: z.object({ name: z.string() }).nullish(),
+        })
+      )
+      .default([]),
+    parent: z.object({ gid: z.string() }).nullish(),
+    subtasks: z.array(taskSchema).default([]),
+  })
+);
+
+const exportSchema = z.object({ data: z.array(taskSchema) });
+
+/**
+ * Reads tasks exported from Asana (project menu → Export/Print → JSON).
+ * Sections become the workflow in the order they first appear, and each
+ * Asana project a project. Completed tasks go to a finished section, or to
+ * a "Completed" status added for them. Subtasks come along as subtasks.
+ */
+export const parseAsana = (text: string): BoardParseResult => {
+  const json = parseJson(text);
+  if (!json.ok) return json;
+  const parsed = exportSchema.safeParse(json.data);
+  if (!parsed.success) {
+    return { ok: false, error: "The file isn't an Asana JSON export." };
+  }
+  if (parsed.data.data.length === 0) {
+    return { ok: false, error: "The export has no tasks in it." };
+  }
+
+  // Flatten nested subtasks, keeping each task once even if the export also
+  // lists it at the top level.
+  const seen = new Set<string>();
+  const flat: { task: AsanaTask; parent?: AsanaTask }[] = [];
+  const visit = (task: AsanaTask, parent?: AsanaTask) => {
+    if (seen.has(task.gid)) return;
+    seen.add(task.gid);
+    flat.push({ task, parent });
+    task.subtasks.forEach((subtask) => visit(subtask, task));
+  };
+  parsed.data.data.forEach((task) => visit(task));
+  const byGid = new Map(flat.map(({ task }) => [task.gid, task]));
+  const parentOf = (task: AsanaTask, parent?: AsanaTask) =>
+    parent ?? (task.parent ? byGid.get(task.parent.gid) : undefined);
+  const parents = new Map(
+    flat.map(({ task, parent }) => [task, parentOf(task, parent)])
+  );
+
+  // Subtasks usually have no project or section of their own.
+  const rootOf = (task: AsanaTask, seen = new Set<AsanaTask>()): AsanaTask => {
+    const parent = parents.get(task);
+    seen.add(task);
+    return task.memberships.length === 0 &&
+      task.projects.length === 0 &&
+      parent &&
+      !seen.has(parent)
+      ? rootOf(parent, seen)
+      : task;
+  };
+  const projectNameOf = (task: AsanaTask) => {
+    const root = rootOf(task);
+    return (
+      root.memberships.find((m) => m.project)?.project?.name ||
+      root.projects[0]?.name ||
+      "Asana import"
+    );
+  };
+
+  const tally = createTally();
+  const groups = new Map<string, { task: AsanaTask; parent?: AsanaTask }[]>();
+  flat.forEach((item) => {
+    const name = projectNameOf(item.task);
+    groups.set(name, [...(groups.get(name) ?? []), item]);
+  });
+
+  const projects = [...groups].map(([name, items]): ImportedProject => {
+    const sections: string[] = [];
+    items.forEach(({ task }) => {
+      const section = task.memberships.find((m) => m.section)?.section?.name;
+      if (section && !sections.includes(section)) sections.push(section);
+    });
+    const columns = sections.map((section) => ({
+      name: section,
+      isDone: looksDone(section),
+    }));
+    if (columns.length === 0 || columns.every((c) => c.isDone)) {
+      columns.unshift({ name: "To Do", isDone: false });
+    }
+    if (
+      items.some(({ task }) => task.completed) &&
+      !columns.some((c) => c.isDone)
+    ) {
+      columns.push({ name: "Completed", isDone: true });
+    }
+    const statuses = buildWorkflow(columns);
+    const statusNamed = (section?: string) =>
+      statuses.find((s) => s.name === section);
+    const firstOpen = statuses.find((s) => !s.isDone)!;
+    const firstDone = statuses.find((s) => s.isDone);
+
+    const tasks = items.map(({ task }): ImportedTask => {
+      const section = statusNamed(
+        task.memberships.find((m) => m.section)?.section?.name
+      );
+      const status = task.completed
+        ? section?.isDone
+          ? section
+          : firstDone!
+        : (section ?? firstOpen);
+
+      const priorityField = task.custom_fields.find((field) =>
+        /priority/i.test(field.name)
+      );
+      const tagPriorities = task.tags.map((tag) => readPriority(tag.name));
+      task.custom_fields
+        .filter(
+          (field) =>
+            field !== priorityField && (field.enum_value || field.display_value)
+        )
+        .forEach((field) => tally.add(`Custom field "${field.name}"`));
+      tally.add("Assignee", !!task.assignee);
+      tally.add(
+        "Tags",
+        tagPriorities.some((p) => p === undefined)
+      );
+
+      return {
+        sourceId: task.gid,
+        parentSourceId: parents.get(task)?.gid,
+        title: task.name,
+        description: task.notes,
+        status: status.id,
+        priority:
+          readPriority(
+            priorityField?.enum_value?.name ??
+              priorityField?.display_value ??
+              ""
+          ) ??
+          tagPriorities.find(Boolean) ??
+          "medium",
+        dueDate: task.due_on ?? undefined,
+        startDate: task.start_on ?? undefined,
+        checklist: [],
+      };
+    });
+
+    return { name, description: "", statuses, tasks };
+  });
+
+  return {
+    ok: true,
+    board: checkBoard({ projects, unmapped: tally.list(), skipped: [] }),
+  };
+};
@@ -0,0 +1,130 @@
+import { parseAsana } from "./asana";
+import { parseJira } from "./jira";
+import { parseTrello } from "./trello";
+import type { NewTask, Project, Task } from "@/store/useStore";
+import type {
+  BoardParseResult,
+  ImportedBoard,
+  ImportedProject,
+  ImportedTask,
+} from "./shared";
+
+export type {
+  BoardParseResult,
+  ImportedBoard,
+  ImportedProject,
+  ImportedTask,
+  UnmappedField,
+} from "./shared";
+
+export type ImportSource = "trello" | "jira" | "asana";
+
+export const importSources: Record<
+  ImportSource,
+  {
+    label: string;
+    /** Where to find the export in the other tool. */
+    hint: string;
+    accept: string;
+    parse: (text: string) => BoardParseResult;
+  }
+> = {
+  trello: {
+    label: "Trello",
+    hint: "Board menu → Print, export and share → Export as JSON",
+    accept: "application/json,.json",
+    parse: parseTrello,
+  },
+  jira: {
+    label: "Jira",
+    hint: "Issue search → Export → Export CSV (all fields)",
+    accept: "text/csv,.csv",
+    parse: parseJira,
+  },
+  asana: {
+    label: "Asana",
+    hint: "Project menu → Export/Print → JSON",
+    accept: "application/json,.json",
+    parse: parseAsana,
+  },
+};
+
+/**
+ * The parent a task keeps after import. Subtasks always live in their
+ * parent's project, so links to tasks outside the project are dropped.
+ */
+const parentOf = (project: ImportedProject, task: ImportedTask) =>
+  task.parentSourceId
+    ? project.tasks.find((t) => t.sourceId === task.parentSourceId)
+    : undefined;
+
+/** Totals for the dry run shown before an import writes anything. */
+export const summarizeBoard = (board: ImportedBoard) => {
+  const tasks = board.projects.flatMap((project) =>
+    project.tasks.map((task) => ({ task, parent: parentOf(project, task) }))
+  );
+  return {
+    projects: board.projects.length,
+    tasks: tasks.length,
+    subtasks: tasks.filter(({ parent }) => parent).length,
+    checklistItems: tasks.reduce(
+      (sum, { task }) => sum + task.checklist.length,
+      0
+    ),
+    missingDueDates: tasks.filter(({ task }) => !task.dueDate).length,
+  };
+};
+
+/**
+ * Writes a parsed board through the store's actions: one project per
+ * imported project, then its tasks with parents ahead of their subtasks.
+ * Tasks without a due date are given `fallbackDueDate`, and lose a start
+ * date that falls after it.
+ */
+export const writeBoard = (
+  board: ImportedBoard,
+  actions: {
+    addProject: (project: Omit<Project, "id" | "createdAt">) => Project;
+    addTask: (task: NewTask) => Task | undefined;
+  },
+  {
+    color,
+    fallbackDueDate,
+  }: { color: (index: number) => string; fallbackDueDate: string }
+) =>
+  board.projects.forEach((imported, index) => {
+    const project = actions.addProject({
+      name: imported.name,
+      description: imported.description,
+      color: color(index),
+      statuses: imported.statuses,
+    });
+    const created = new Map<ImportedTask, string>();
+    const create = (task: ImportedTask, seen: Set<ImportedTask>): string => {
+      const existing = created.get(task);
+      if (existing) return existing;
+      seen.add(task);
+      const parent = parentOf(imported, task);
+      const dueDate = task.dueDate ?? fallbackDueDate;
+      // The project was just created, so it isn't archived and takes tasks.
+      const { id } = actions.addTask({
+        projectId: project.id,
+        // A malformed export could loop its parents; the loop is cut here.
+        parentId:
+          parent && !seen.has(parent) ? create(parent, seen) : undefined,
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        priority: task.priority,
+        dueDate,
+        startDate:
+          task.startDate && task.startDate <= dueDate
+            ? task.startDate
+            : undefined,
+        checklist: task.checklist,
+      })!;
+      created.set(task, id);
+      return id;
+    };
+    imported.tasks.forEach((task) => create(task, new Set()));
+  });
@@ -0,0 +1,171 @@
+import { isValid, parse } from "date-fns";
+import { parseCsv } from "@/lib/csv";
+import { toDateKey } from "@/lib/dates";
+import {
+  buildWorkflow,
+  checkBoard,
+  createTally,
+  looksDone,
+  readPriority,
+} from "./shared";
+import type { BoardParseResult, ImportedProject, ImportedTask } from "./shared";
+
+// Columns the import reads. Everything else with a value is reported as
+// unmapped. Jira repeats some headers (Labels, Comment) once per value.
+const MAPPED_COLUMNS = [
+  "Summary",
+  "Description",
+  "Status",
+  "Status Category",
+  "Priority",
+  "Due Date",
+  "Due date",
+  "Start date",
+  "Custom field (Start date)",
+  "Project name",
+  "Project key",
+  "Project description",
+  "Issue key",
+  "Issue id",
+  "Parent id",
+  "Parent",
+];
+
+// Jira writes dates in the site's display format; these are the usual ones.
+const dateFormats = [
+  "dd/MMM/yy h:mm a",
+  "dd/MMM/yy",
+  "yyyy-MM-dd HH:mm",
+  "yyyy-MM-dd",
+  "M/d/yyyy",
+];
+
+const readDate = (value: string) => {
+  if (!value) return undefined;
+  for (const dateFormat of dateFormats) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date)) return toDateKey(date);
+  }
+  return undefined;
+};
+
+const categoryRanks: Record<string, number> = {
+  "to do": 0,
+  "in progress": 1,
+  done: 2,
+};
+
+/**
+ * Reads issues exported from Jira (Filters → Export → CSV, all fields).
+ * Each Jira project becomes a project and its statuses its workflow. The
+ * Status Category column, when present, orders the statuses and decides
+ * which count as done; otherwise status names do.
+ */
+export const parseJira = (text: string): BoardParseResult => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = new Map<string, number[]>();
+  header?.forEach((name, index) =>
+    columns.set(name.trim(), [...(columns.get(name.trim()) ?? []), index])
+  );
+  if (!columns.has("Summary") || !columns.has("Status")) {
+    return {
+      ok: false,
+      error:
+        "The file isn't a Jira CSV export; it needs Summary and Status columns.",
+    };
+  }
+  if (rows.length === 0) {
+    return { ok: false, error: "The export has no issues in it." };
+  }
+
+  const cell = (row: string[], ...names: string[]) => {
+    for (const name of names) {
+      for (const index of columns.get(name) ?? []) {
+        const value = row[index]?.trim();
+        if (value) return value;
+      }
+    }
+    return "";
+  };
+
+  const tally = createTally();
+  [...columns.keys()]
+    .filter((name) => !MAPPED_COLUMNS.includes(name))
+    .forEach((name) =>
+      rows.forEach((row) => tally.add(name, cell(row, name) !== ""))
+    );
+
+  const hasCategories = columns.has("Status Category");
+  const statusOf = (row: string[]) => cell(row, "Status") || "To Do";
+  const sourceIdOf = (row: string[], index: number) =>
+    cell(row, "Issue id", "Issue key") || `row-${index}`;
+  // Parents may be referenced by key or id; tasks are linked up by id.
+  const idByKey = new Map(
+    rows.map((row, index) => [cell(row, "Issue key"), sourceIdOf(row, index)])
+  );
+
+  const groups = new Map<string, { row: string[]; index: number }[]>();
+  rows.forEach((row, index) => {
+    const name = cell(row, "Project name", "Project key") || "Jira import";
+    groups.set(name, [...(groups.get(name) ?? []), { row, index }]);
+  });
+
+  const projects = [...groups].map(([name, issues]): ImportedProject => {
+    const found = new Map<string, { rank: number; isDone: boolean }>();
+    issues.forEach(({ row }) => {
+      const status = statusOf(row);
+      if (found.has(status)) return;
+      const category = cell(row, "Status Category");
+      found.set(status, {
+        rank: hasCategories
+          ? (categoryRanks[category.toLowerCase()] ?? 1)
+          : looksDone(status)
+            ? 2
+            : 0,
+        isDone: hasCategories
+          ? category.toLowerCase() === "done"
+          : looksDone(status),
+      });
+    });
+    const columnsInOrder = [...found]
+      .map(([status, info], index) => ({ status, index, ...info }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index);
+    const statuses = buildWorkflow(
+      columnsInOrder.map(({ status, isDone }) => ({ name: status, isDone }))
+    );
+
+    const tasks = issues.map(({ row, index }): ImportedTask => {
+      const parent = cell(row, "Parent id", "Parent");
+      return {
+        sourceId: sourceIdOf(row, index),
+        parentSourceId: parent ? (idByKey.get(parent) ?? parent) : undefined,
+        title: cell(row, "Summary") || cell(row, "Issue key"),
+        description: cell(row, "Description"),
+        status:
+          statuses[columnsInOrder.findIndex((c) => c.status === statusOf(row))]
+            .id,
+        priority: readPriority(cell(row, "Priority")) ?? "medium",
+        dueDate: readDate(cell(row, "Due Date", "Due date")),
+        startDate: readDate(
+          cell(row, "Start date", "Custom field (Start date)")
+        ),
+        checklist: [],
+      };
+    });
+
+    return {
+      name,
+      description:
+        issues
+          .map(({ row }) => cell(row, "Project description"))
+          .find(Boolean) ?? "",
+      statuses,
+      tasks,
+    };
+  });
+
+  return {
+    ok: true,
+    board: checkBoard({ projects, unmapped: tally.list(), skipped: [] }),
+  };
+};
@@ -0,0 +1,205 @@
+import type { z } from "zod";
+import type { ChecklistItem, Task, WorkflowStatus } from "@/store/useStore";
+import { projectSchema, taskSchema } from "@/lib/forms";
+import { DEFAULT_WORKFLOW, statusColors } from "@/lib/workflow";
+
+/** A task read from another tool, not yet in the store. */
+export interface ImportedTask {
+  /** The task's id in the source tool; subtasks point at their parent's. */
+  sourceId: string;
+  parentSourceId?: string;
+  title: string;
+  description: string;
+  /** Id of one of the project's imported statuses. */
+  status: string;
+  priority: Task["priority"];
+  /** Missing when the source had none; the import fills in a date. */
+  dueDate?: string;
+  startDate?: string;
+  checklist: ChecklistItem[];
+}
+
+export interface ImportedProject {
+  name: string;
+  description: string;
+  statuses: WorkflowStatus[];
+  tasks: ImportedTask[];
+}
+
+/** A source field ProManage has no place for, and how often it was set. */
+export interface UnmappedField {
+  field: string;
+  count: number;
+}
+
+/** An imported item the forms would refuse, and what the import does. */
+export interface ImportIssue {
+  /** The item as named in the source, e.g. `Task "Write docs"`. */
+  item: string;
+  problem: string;
+}
+
+export interface ImportedBoard {
+  projects: ImportedProject[];
+  unmapped: UnmappedField[];
+  /** What was deliberately left out, e.g. archived cards. */
+  skipped: string[];
+  /** Items changed or left out to satisfy the forms' rules. */
+  issues: ImportIssue[];
+}
+
+export type BoardParseResult =
+  { ok: true; board: ImportedBoard } | { ok: false; error: string };
+
+const DONE_NAME =
+  /\b(done|complete|completed|closed|finished|resolved|shipped)\b/i;
+
+/** Whether a column or status name reads as "finished". */
+export const looksDone = (name: string) => DONE_NAME.test(name);
+
+/**
+ * Reads a priority out of free text such as a label, tag or Jira priority.
+ * Anything that doesn't clearly name a level is left for the caller.
+ */
+export const readPriority = (text: string): Task["priority"] | undefined => {
+  if (/\b(highest|high|urgent|critical|blocker)\b/i.test(text)) return "high";
+  if (/\b(lowest|low|minor|trivial)\b/i.test(text)) return "low";
+  if (/\b(medium|normal|moderate)\b/i.test(text)) return "medium";
+  return undefined;
+};
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "status";
+
+/**
+ * Turns source columns into a workflow. Columns named like the default
+ * statuses keep their ids, so imported boards line up with existing ones on
+ * the all-tasks board.
+ */
+export const buildWorkflow = (
+  columns: { name: string; isDone: boolean }[]
+): WorkflowStatus[] => {
+  const used = new Set<string>();
+  return columns.map(({ name, isDone }, index) => {
+    const builtIn = DEFAULT_WORKFLOW.find(
+      (status) => status.name.toLowerCase() === name.toLowerCase()
+    );
+    const base = builtIn?.id ?? slugify(name);
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    return {
+      id,
+      name,
+      color: builtIn?.color ?? statusColors[index % statusColors.length],
+      isDone,
+    };
+  });
+};
+
+/** Counts how many items set each field the import can't carry over. */
+export const createTally = () => {
+  const counts = new Map<string, number>();
+  return {
+    add: (field: string, when = true) => {
+      if (when) counts.set(field, (counts.get(field) ?? 0) + 1);
+    },
+    list: (): UnmappedField[] =>
+      [...counts].map(([field, count]) => ({ field, count })),
+  };
+};
+
+export const parseJson = (text: string) => {
+  try {
+    return { ok: true as const, data: JSON.parse(text) as unknown };
+  } catch {
+    return { ok: false as const, error: "The file isn't valid JSON." };
+  }
+};
+
+const UNTITLED_PROJECT = "Untitled project";
+
+const describe = (kind: string, name: string) =>
+  `${kind} "${name.length > 40 ? `${name.slice(0, 40)}…` : name}"`;
+
+/** `value` cut to the length a too-long issue allows. */
+const fit = (value: string, issue: z.ZodIssue) =>
+  issue.code === "too_big" ? value.slice(0, Number(issue.maximum)) : value;
+
+/**
+ * Holds a parsed board to the rules of the project and task forms. Text over
+ * a length limit is cut to fit, a start date after the due date is dropped,
+ * a project without a name gets a placeholder and a task without a title is
+ * left out. Each change is listed in `issues` for the dry run.
+ */
+export const checkBoard = (
+  board: Omit<ImportedBoard, "issues">
+): ImportedBoard => {
+  const issues: ImportIssue[] = [];
+
+  const projects = board.projects.map((project) => {
+    const checked = { ...project };
+    const item = describe("Project", project.name);
+    projectSchema
+      .safeParse({ ...project, color: "" })
+      .error?.issues.forEach((issue) => {
+        const field = issue.path[0];
+        if (field === "name" && issue.code === "too_small") {
+          checked.name = UNTITLED_PROJECT;
+          issues.push({
+            item,
+            problem: `${issue.message}; named "${UNTITLED_PROJECT}"`,
+          });
+        } else if (field === "name" || field === "description") {
+          checked[field] = fit(checked[field], issue);
+          issues.push({ item, problem: `${issue.message}; shortened` });
+        }
+      });
+
+    checked.tasks = project.tasks.flatMap((task) => {
+      const fixed = { ...task };
+      const taskItem = describe("Task", task.title);
+      let keep = true;
+      taskSchema
+        .safeParse({
+          ...task,
+          startDate: task.startDate ?? "",
+          dueDate: task.dueDate ?? "",
+        })
+        .error?.issues.forEach((issue) => {
+          const field = issue.path[0];
+          // Missing due dates are filled in when the board is written, and
+          // start dates checked against them then.
+          if (field === "dueDate" || (field === "startDate" && !task.dueDate)) {
+            return;
+          }
+          if (field === "title" && issue.code === "too_small") {
+            keep = false;
+            issues.push({
+              item: taskItem,
+              problem: `${issue.message}; left out`,
+            });
+          } else if (field === "title" || field === "description") {
+            fixed[field] = fit(fixed[field], issue);
+            issues.push({
+              item: taskItem,
+              problem: `${issue.message}; shortened`,
+            });
+          } else if (field === "startDate") {
+            fixed.startDate = undefined;
+            issues.push({
+              item: taskItem,
+              problem: `${issue.message}; start date left out`,
+            });
+          }
+        });
+      return keep ? [fixed] : [];
+    });
+    return checked;
+  });
+
+  return { ...board, projects, issues };
+};
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { generateId } from "@/lib/utils";
+import { toDateKey } from "@/lib/dates";
+import {
+  buildWorkflow,
+  checkBoard,
+  createTally,
+  looksDone,
+  parseJson,
+  readPriority,
+} from "./shared";
+import type { BoardParseResult, ImportedTask } from "./shared";
+
+const trelloSchema = z.object({
+  name: z.string(),
+  desc: z.string().default(""),
+  lists: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      closed: z.boolean().default(false),
+      pos: z.number().default(0),
+    })
+  ),
+  cards: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      desc: z.string().default(""),
+      idList: z.string(),
+      closed: z.boolean().default(false),
+      pos: z.number().default(0),
+      due: z.string().nullish(),
+      start: z.string().nullish(),
+      labels: z.array(z.object({ name: z.string().default("") })).default([]),
+      idMembers: z.array(z.string()).default([]),
+      badges: z
+        .object({
+          comments: z.number().default(0),
+          attachments: z.number().default(0),
+        })
+        .partial()
+        .default({}),
+      customFieldItems: z.array(z.unknown()).default([]),
+    })
+  ),
+  checklists: z
+    .array(
+      z.object({
+        idCard: z.string(),
+        pos: z.number().default(0),
+        checkItems: z.array(
+          z.object({
+            name: z.string(),
+            state: z.string(),
+            pos: z.number().default(0),
+          })
+        ),
+      })
+    )
+    .default([]),
+});
+
+const byPos = (a: { pos: number }, b: { pos: number }) => a.pos - b.pos;
+
+/**
+ * Reads a board exported from Trello (Menu → Print, export and share →
+ * Export as JSON). Open lists become the workflow, in board order; lists
+ * named like "Done" count as finished. Archived lists and cards are left out.
+ */
+export const parseTrello = (text: string): BoardParseResult => {
+  const json = parseJson(text);
+  if (!json.ok) return json;
+  const parsed = trelloSchema.safeParse(json.data);
+  if (!parsed.success) {
+    return { ok: false, error: "The file isn't a Trello board export." };
+  }
+  const board = parsed.data;
+
+  const lists = board.lists.filter((list) => !list.closed).sort(byPos);
+  if (lists.length === 0) {
+    return { ok: false, error: "The board has no open lists to import." };
+  }
+  const statuses = buildWorkflow(
+    lists.map((list) => ({ name: list.name, isDone: looksDone(list.name) }))
+  );
+  const statusByList = new Map(
+    lists.map((list, index) => [list.id, statuses[index].id])
+  );
+
+  const tally = createTally();
+  const cards = board.cards.filter(
+    (card) => !card.closed && statusByList.has(card.idList)
+  );
+  const tasks = [...cards].sort(byPos).map((card): ImportedTask => {
+    const priorities = card.labels.map((label) => readPriority(label.name));
+    tally.add(
+      "Labels",
+      priorities.some((priority) => priority === undefined)
+    );
+    tally.add("Members", card.idMembers.length > 0);
+    tally.add("Comments", (card.badges.comments ?? 0) > 0);
+    tally.add("Attachments", (card.badges.attachments ?? 0) > 0);
+    tally.add("Custom fields", card.customFieldItems.length > 0);
+
+    const checklist = board.checklists
+      .filter((list) => list.idCard === card.id)
+      .sort(byPos)
+      .flatMap((list) => [...list.checkItems].sort(byPos))
+      .map((item) => ({
+        id: generateId(),
+        text: item.name,
+        done: item.state === "complete",
+      }));
+
+    return {
+      sourceId: card.id,
+      title: card.name,
+      description: card.desc,
+      status: statusByList.get(card.idList)!,
+      priority: priorities.find(Boolean) ?? "medium",
+      dueDate: card.due ? toDateKey(new Date(card.due)) : undefined,
+      startDate: card.start ? toDateKey(new Date(card.start)) : undefined,
+      checklist,
+    };
+  });
+
+  const archived = board.cards.length - cards.length;
+  return {
+    ok: true,
+    board: checkBoard({
+      projects: [
+        { name: board.name, description: board.desc, statuses, tasks },
+      ],
+      unmapped: tally.list(),
+      skipped:
+        archived > 0
+          ? [
+              `${archived} archived card${archived === 1 ? "" : "s"} or cards in archived lists`,
+            ]
+          : [],
+    }),
+  };
+};
@@ -0,0 +1,34 @@
+import type { TaskUpdate } from "@/store/useStore";
+
+/**
+ * Neighbours closer than this are spread out again, well before repeated
+ * midpoints run out of floating-point precision and ranks start to tie.
+ */
+const MIN_RANK_GAP = 1e-6;
+
+/**
+ * Picks a rank between two neighbours so a move only rewrites the item that
+ * moved. Either side may be missing when dropping at the start or end.
+ */
+export function rankBetween(before?: number, after?: number): number {
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return after! - 1;
+  if (after === undefined) return before + 1;
+  return (before + after) / 2;
+}
+
+export const byOrder = <T extends { order: number }>(a: T, b: T) =>
+  a.order - b.order;
+
+/** Whether any neighbours in `items`, sorted by rank, sit too close. */
+export const ranksNeedSpacing = (items: { order: number }[]) =>
+  items.some(
+    (item, index) =>
+      index > 0 && item.order - items[index - 1].order < MIN_RANK_GAP
+  );
+
+/** Updates giving `items`, sorted by rank, whole-number ranks in turn. */
+export const spaceRanks = (items: { id: string; order: number }[]) =>
+  items.flatMap((item, index): TaskUpdate[] =>
+    item.order === index ? [] : [{ id: item.id, changes: { order: index } }]
+  );
@@ -0,0 +1,65 @@
+const PBKDF2_ITERATIONS = 210_000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+export interface PasswordHash {
+  hash: string;
+  salt: string;
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const deriveBits = async (
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    KEY_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveBits(password, salt, PBKDF2_ITERATIONS);
+  return {
+    hash: toBase64(hash),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: PasswordHash
+): Promise<boolean> {
+  const expected = fromBase64(stored.hash);
+  const actual = await deriveBits(
+    password,
+    fromBase64(stored.salt),
+    stored.iterations
+  );
+  if (actual.length !== expected.length) return false;
+
+  // Compare every byte so timing doesn't reveal where the first mismatch is.
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual[i] ^ expected[i];
+  }
+  return diff === 0;
+}
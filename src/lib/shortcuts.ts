@@ -0,0 +1,211 @@
+/*
+ * Keyboard shortcuts are written as space-separated key sequences, each key
+ * being a KeyboardEvent `key` value: "c", "?", "g p", "Enter". Shortcuts
+ * never use Ctrl, Cmd or Alt; those combinations stay with the browser and
+ * the app-wide ones (command palette, undo).
+ */
+
+export type ShortcutScope = "global" | "tasks" | "projects";
+
+export const shortcutScopes: Record<ShortcutScope, string> = {
+  global: "Anywhere",
+  tasks: "Task lists",
+  projects: "Projects",
+};
+
+export const shortcutDefinitions = [
+  {
+    id: "help",
+    scope: "global",
+    keys: "?",
+    label: "Show keyboard shortcuts",
+  },
+  {
+    id: "go-dashboard",
+    scope: "global",
+    keys: "g d",
+    label: "Go to Dashboard",
+  },
+  {
+    id: "go-projects",
+    scope: "global",
+    keys: "g p",
+    label: "Go to Projects",
+  },
+  {
+    id: "go-tasks",
+    scope: "global",
+    keys: "g t",
+    label: "Go to Tasks",
+  },
+  {
+    id: "go-calendar",
+    scope: "global",
+    keys: "g c",
+    label: "Go to Calendar",
+  },
+  {
+    id: "go-settings",
+    scope: "global",
+    keys: "g s",
+    label: "Go to Settings",
+  },
+  {
+    id: "task-create",
+    scope: "tasks",
+    keys: "c",
+    label: "New task",
+  },
+  {
+    id: "task-next",
+    scope: "tasks",
+    keys: "j",
+    label: "Select next task",
+  },
+  {
+    id: "task-previous",
+    scope: "tasks",
+    keys: "k",
+    label: "Select previous task",
+  },
+  {
+    id: "task-open",
+    scope: "tasks",
+    keys: "Enter",
+    label: "Open selected task",
+  },
+  {
+    id: "task-edit",
+    scope: "tasks",
+    keys: "e",
+    label: "Edit selected task",
+  },
+  {
+    id: "task-toggle",
+    scope: "tasks",
+    keys: "x",
+    label: "Complete or reopen selected task",
+  },
+  {
+    id: "project-create",
+    scope: "projects",
+    keys: "c",
+    label: "New project",
+  },
+  {
+    id: "project-next",
+    scope: "projects",
+    keys: "j",
+    label: "Select next project",
+  },
+  {
+    id: "project-previous",
+    scope: "projects",
+    keys: "k",
+    label: "Select previous project",
+  },
+  {
+    id: "project-open",
+    scope: "projects",
+    keys: "Enter",
+    label: "Open selected project",
+  },
+  {
+    id: "project-edit",
+    scope: "projects",
+    keys: "e",
+    label: "Edit selected project",
+  },
+] as const satisfies readonly {
+  id: string;
+  scope: ShortcutScope;
+  keys: string;
+  label: string;
+}[];
+
+export type ShortcutId = (typeof shortcutDefinitions)[number]["id"];
+
+export type ShortcutBindings = Record<ShortcutId, string>;
+
+/** Sequences longer than this are more than anyone will remember. */
+export const MAX_SEQUENCE_LENGTH = 2;
+
+/** How long a started sequence waits for its next key. */
+export const SEQUENCE_TIMEOUT_MS = 1000;
+
+const modifierKeys = ["Shift", "Control", "Alt", "Meta", "CapsLock"];
+
+/** Letters match case-insensitively, so Caps Lock doesn't break bindings. */
+export const normalizeKey = (key: string) =>
+  key.length === 1 ? key.toLowerCase() : key;
+
+/** Whether a keydown can be part of a binding at all. */
+export const isBindableKey = (event: KeyboardEvent) =>
+  !event.ctrlKey &&
+  !event.metaKey &&
+  !event.altKey &&
+  !modifierKeys.includes(event.key) &&
+  event.key !== "Escape" &&
+  event.key !== "Tab" &&
+  event.key !== " " &&
+  event.key !== "Dead";
+
+/** The defaults with the user's changes applied. */
+export const resolveBindings = (
+  overrides: Partial<ShortcutBindings>
+): ShortcutBindings =>
+  Object.fromEntries(
+    shortcutDefinitions.map((shortcut) => [
+      shortcut.id,
+      overrides[shortcut.id] ?? shortcut.keys,
+    ])
+  ) as ShortcutBindings;
+
+export const getShortcut = (id: ShortcutId) =>
+  shortcutDefinitions.find((shortcut) => shortcut.id === id)!;
+
+// Global shortcuts are live on every page, so they clash with everything;
+// page scopes are never active together.
+const scopesOverlap = (a: ShortcutScope, b: ShortcutScope) =>
+  a === b || a === "global" || b === "global";
+
+// "g" would fire before "g p" ever could, so a prefix clashes too.
+const sequencesClash = (a: string, b: string) =>
+  a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+
+/** Other shortcuts that `keys` would clash with if bound to `id`. */
+export const findConflicts = (
+  id: ShortcutId,
+  keys: string,
+  bindings: ShortcutBindings
+): ShortcutId[] => {
+  const { scope } = getShortcut(id);
+  return shortcutDefinitions
+    .filter(
+      (other) =>
+        other.id !== id &&
+        scopesOverlap(scope, other.scope) &&
+        sequencesClash(keys, bindings[other.id])
+    )
+    .map((other) => other.id);
+};
+
+const keyLabels: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Backspace: "⌫",
+  Delete: "Del",
+};
+
+/** The individual keys of a sequence, as shown on key caps. */
+export const keyCaps = (keys: string) =>
+  keys.split(" ").map((key) => keyLabels[key] ?? key);
+
+/** What the Ctrl/Cmd modifier is called on this machine. */
+export const modKeyLabel =
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.userAgent)
+    ? "⌘"
+    : "Ctrl";
@@ -0,0 +1,48 @@
+import type { Project, Task } from "@/store/useStore";
+import { getWorkflow, isTaskDone } from "./workflow";
+import { getDescendantIds } from "./subtasks";
+import { getOpenBlockers } from "./dependencies";
+
+/**
+ * Reasons to double-check before moving a task into `status`. None of these
+ * block the change: completing a parent with open subtasks, or starting a
+ * task whose blockers haven't finished, just deserves a warning first.
+ */
+export const getStatusChangeWarnings = (
+  task: Task,
+  status: string,
+  tasks: Task[],
+  projects: Project[]
+) => {
+  const warnings: string[] = [];
+  const project = projects.find((p) => p.id === task.projectId);
+  const isDone = isTaskDone({ ...task, status }, projects);
+  // Leaving the workflow's first status means work on the task has started.
+  const isStarted = getWorkflow(project)[0]?.id !== status;
+
+  const openBlockers = getOpenBlockers(task, tasks, projects);
+  if ((isDone || isStarted) && openBlockers.length > 0) {
+    warnings.push(
+      `Blocked by ${openBlockers.map((t) => `"${t.title}"`).join(", ")}.`
+    );
+  }
+
+  if (isDone) {
+    const openSubtasks = getDescendantIds(tasks, task.id).filter((id) => {
+      const subtask = tasks.find((t) => t.id === id);
+      return subtask && !isTaskDone(subtask, projects);
+    });
+    const openItems = (task.checklist ?? []).filter((item) => !item.done);
+    if (openSubtasks.length > 0) {
+      warnings.push(
+        `${openSubtasks.length} subtask${openSubtasks.length === 1 ? " is" : "s are"} still open.`
+      );
+    }
+    if (openItems.length > 0) {
+      warnings.push(
+        `${openItems.length} checklist item${openItems.length === 1 ? " is" : "s are"} unchecked.`
+      );
+    }
+  }
+  return warnings;
+};
@@ -0,0 +1,35 @@
+import type { Project, Task } from "@/store/useStore";
+import { isTaskDone } from "./workflow";
+
+export const getSubtasks = (tasks: Task[], parentId: string) =>
+  tasks.filter((t) => t.parentId === parentId);
+
+/** Ids of every task nested below `parentId`, at any depth. */
+export const getDescendantIds = (tasks: Task[], parentId: string) => {
+  const ids: string[] = [];
+  const queue = [parentId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    getSubtasks(tasks, id).forEach((child) => {
+      ids.push(child.id);
+      queue.push(child.id);
+    });
+  }
+  return ids;
+};
+
+/** Direct subtasks and checklist items, counted together. */
+export const getTaskProgress = (
+  task: Task,
+  tasks: Task[],
+  projects: Project[]
+) => {
+  const subtasks = getSubtasks(tasks, task.id);
+  const checklist = task.checklist ?? [];
+  return {
+    done:
+      subtasks.filter((t) => isTaskDone(t, projects)).length +
+      checklist.filter((item) => item.done).length,
+    total: subtasks.length + checklist.length,
+  };
+};
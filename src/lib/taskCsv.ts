@@ -0,0 +1,232 @@
+import { isValid, parse } from "date-fns";
+import type { NewTask, Project, Task } from "@/store/useStore";
+import { projectSchema, taskSchema } from "./forms";
+import { isArchived } from "./archive";
+import { toCsv, unescapeCell } from "./csv";
+import { toDateKey } from "./dates";
+import { DEFAULT_WORKFLOW, findStatus, getWorkflow } from "./workflow";
+
+const EXPORT_HEADER = [
+  "Title",
+  "Description",
+  "Status",
+  "Priority",
+  "Due Date",
+  "Project",
+];
+
+/** Tasks as a spreadsheet, with status and project names instead of ids. */
+export const tasksToCsv = (tasks: Task[], projects: Project[]) =>
+  toCsv([
+    EXPORT_HEADER,
+    ...tasks.map((task) => {
+      const project = projects.find((p) => p.id === task.projectId);
+      return [
+        task.title,
+        task.description,
+        findStatus(project, task.status)?.name ?? task.status,
+        task.priority,
+        task.dueDate,
+        project?.name ?? "",
+      ];
+    }),
+  ]);
+
+export type TaskCsvField =
+  | "title"
+  | "description"
+  | "status"
+  | "priority"
+  | "startDate"
+  | "dueDate"
+  | "project";
+
+export const taskCsvFields: {
+  field: TaskCsvField;
+  label: string;
+  required?: boolean;
+  /** Header names, lowercased without punctuation, guessed as this field. */
+  aliases: string[];
+}[] = [
+  {
+    field: "title",
+    label: "Title",
+    required: true,
+    aliases: ["title", "name", "task", "taskname", "summary"],
+  },
+  {
+    field: "description",
+    label: "Description",
+    aliases: ["description", "notes", "details"],
+  },
+  { field: "status", label: "Status", aliases: ["status", "state"] },
+  { field: "priority", label: "Priority", aliases: ["priority"] },
+  {
+    field: "startDate",
+    label: "Start Date",
+    aliases: ["startdate", "start"],
+  },
+  {
+    field: "dueDate",
+    label: "Due Date",
+    required: true,
+    aliases: ["duedate", "due", "deadline"],
+  },
+  {
+    field: "project",
+    label: "Project",
+    aliases: ["project", "projectname"],
+  },
+];
+
+/** Which CSV column, by index, feeds each task field. */
+export type ColumnMapping = Partial<Record<TaskCsvField, number>>;
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Maps columns whose header looks like a task field; the rest stay unset. */
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  taskCsvFields.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+// Dates are exported as yyyy-MM-dd, but spreadsheets like to reformat them.
+const dateFormats = ["yyyy-MM-dd", "M/d/yyyy"];
+
+const readDate = (value: string) => {
+  if (!value) return "";
+  for (const dateFormat of dateFormats) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date)) return toDateKey(date);
+  }
+  return null;
+};
+
+export interface PlannedTask {
+  /** The spreadsheet row the task came from; the header is row 1. */
+  row: number;
+  task: Omit<NewTask, "projectId">;
+  /** Set when the task goes into an existing project... */
+  projectId?: string;
+  /** ...otherwise the name of the project the import creates for it. */
+  newProject?: string;
+}
+
+export interface RowError {
+  row: number;
+  messages: string[];
+}
+
+export interface TaskImportPlan {
+  tasks: PlannedTask[];
+  /** Projects named in the file that don't exist yet, as first spelled. */
+  newProjects: string[];
+  errors: RowError[];
+}
+
+/**
+ * Works out what importing `records` would do, without touching the store.
+ * Every row is checked against the task form's rules; rows that fail are
+ * reported and left out. Statuses match by name or id within the project's
+ * workflow, and blank statuses and priorities fall back to the form's
+ * defaults. Rows without a project go to `fallbackProjectId` if given.
+ */
+export const planTaskImport = (
+  records: string[][],
+  mapping: ColumnMapping,
+  projects: Project[],
+  fallbackProjectId?: string
+): TaskImportPlan => {
+  const plan: TaskImportPlan = { tasks: [], newProjects: [], errors: [] };
+  const findProject = (name: string) =>
+    projects.find((p) => p.name.trim().toLowerCase() === name.toLowerCase());
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const messages: string[] = [];
+    const cell = (field: TaskCsvField) => {
+      const column = mapping[field];
+      return column === undefined
+        ? ""
+        : unescapeCell(record[column] ?? "").trim();
+    };
+
+    const projectName = cell("project");
+    const project = projectName
+      ? findProject(projectName)
+      : projects.find((p) => p.id === fallbackProjectId);
+    let newProject: string | undefined;
+    if (project && isArchived(project)) {
+      messages.push(`Project "${project.name}" is archived`);
+    } else if (!project && projectName) {
+      const name = projectSchema.shape.name.safeParse(projectName);
+      if (name.success) {
+        newProject =
+          plan.newProjects.find(
+            (p) => p.toLowerCase() === projectName.toLowerCase()
+          ) ?? projectName;
+      } else {
+        messages.push(`Project ${name.error.issues[0].message.toLowerCase()}`);
+      }
+    } else if (!project) {
+      messages.push("Project is required");
+    }
+
+    // New projects start out with the default workflow.
+    const workflow = project ? getWorkflow(project) : DEFAULT_WORKFLOW;
+    const statusName = cell("status");
+    const status = statusName
+      ? workflow.find(
+          (s) =>
+            s.id === statusName ||
+            s.name.toLowerCase() === statusName.toLowerCase()
+        )
+      : workflow[0];
+    if (!status) {
+      messages.push(`Status "${statusName}" isn't in the project's workflow`);
+    }
+
+    const startDate = readDate(cell("startDate"));
+    const dueDate = readDate(cell("dueDate"));
+    if (startDate === null) {
+      messages.push(`Start date "${cell("startDate")}" isn't a date`);
+    }
+    if (dueDate === null) {
+      messages.push(`Due date "${cell("dueDate")}" isn't a date`);
+    }
+
+    const parsed = taskSchema.safeParse({
+      title: cell("title"),
+      description: cell("description"),
+      status: status?.id ?? statusName,
+      priority: cell("priority").toLowerCase() || "medium",
+      startDate: startDate ?? "",
+      dueDate: dueDate ?? cell("dueDate"),
+    });
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => messages.push(issue.message));
+    }
+
+    if (messages.length > 0 || !parsed.success) {
+      plan.errors.push({ row, messages });
+      return;
+    }
+    if (newProject && !plan.newProjects.includes(newProject)) {
+      plan.newProjects.push(newProject);
+    }
+    plan.tasks.push({
+      row,
+      task: parsed.data,
+      projectId: project?.id,
+      newProject,
+    });
+  });
+
+  return plan;
+};
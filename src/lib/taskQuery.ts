@@ -0,0 +1,333 @@
+import type { Project, Task } from "@/store/useStore";
+import { parseDateKey, toDateKey } from "./dates";
+import { isBlocked } from "./dependencies";
+import { getWorkflow, isTaskDone, mergeWorkflows } from "./workflow";
+
+/*
+ * Task search queries: whitespace-separated terms that must all match.
+ *
+ *   status:in-progress priority:high due:<2026-11-01 project:"Website"
+ *   overdue is:blocked -is:done "exact phrase" plain words
+ *
+ * `field:value` terms filter on a task field, anything else searches the
+ * title and description, and a leading `-` negates a term. Quotes group
+ * words into one value. A term that can't be understood is reported on its
+ * token and otherwise ignored, so the rest of the query still applies.
+ * Tasks carry no labels, so there's no `label:` filter; it's reported as
+ * unknown like any other.
+ */
+
+/** Everything a term may need beyond the task itself. */
+export interface QueryContext {
+  tasks: Task[];
+  projects: Project[];
+}
+
+export interface QueryTerm {
+  negate: boolean;
+  test: (task: Task, context: QueryContext) => boolean;
+}
+
+/** A term as typed, with its place in the input for highlighting. */
+export interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+  error?: string;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  tokens: QueryToken[];
+}
+
+export const queryFields = {
+  status: "Status name",
+  priority: "low, medium or high",
+  project: "Project name",
+  due: "Due date, e.g. <2026-11-01 or today",
+  created: "Creation date, e.g. >=2026-01-01",
+  is: "blocked, overdue, done, open or subtask",
+} as const;
+
+export type QueryField = keyof typeof queryFields;
+
+const priorities = ["low", "medium", "high"] as const;
+
+const stateTests = {
+  blocked: (task: Task, { tasks, projects }: QueryContext) =>
+    isBlocked(task, tasks, projects),
+  overdue: (task: Task, { projects }: QueryContext) =>
+    task.dueDate < toDateKey(new Date()) && !isTaskDone(task, projects),
+  done: (task: Task, { projects }: QueryContext) => isTaskDone(task, projects),
+  open: (task: Task, { projects }: QueryContext) => !isTaskDone(task, projects),
+  subtask: (task: Task) => !!task.parentId,
+};
+
+type TaskState = keyof typeof stateTests;
+
+// Own keys only: `constructor:` and friends aren't filters.
+const isField = (name: string): name is QueryField =>
+  Object.hasOwn(queryFields, name);
+const isState = (name: string): name is TaskState =>
+  Object.hasOwn(stateTests, name);
+
+/** Wraps values with spaces in quotes so they stay one term. */
+export const quoteQueryValue = (value: string) =>
+  /\s/.test(value) ? `"${value}"` : value;
+
+/** Splits the input on whitespace outside quotes, keeping positions. */
+const tokenize = (input: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let start = -1;
+  let inQuotes = false;
+  for (let i = 0; i <= input.length; i++) {
+    const char = input[i];
+    const ends = i === input.length || (!inQuotes && /\s/.test(char));
+    if (ends) {
+      if (start !== -1) {
+        tokens.push({ text: input.slice(start, i), start, end: i });
+        start = -1;
+      }
+      continue;
+    }
+    if (start === -1) start = i;
+    if (char === '"') inQuotes = !inQuotes;
+  }
+  return tokens;
+};
+
+// Dates compare as yyyy-MM-dd strings, so `<` and friends work as-is. A
+// typed date must survive a round trip, which rules out ones like 2026-13-01.
+const parseDateTerm = (
+  value: string,
+  key: "dueDate" | "createdAt"
+): QueryTerm["test"] | string => {
+  const [, op = "", date] = /^(<=|>=|<|>)?(.*)$/.exec(value)!;
+  const day =
+    date.toLowerCase() === "today"
+      ? toDateKey(new Date())
+      : /^\d{4}-\d{2}-\d{2}$/.test(date) &&
+          toDateKey(parseDateKey(date)) === date
+        ? date
+        : null;
+  if (!day) return "Dates look like 2026-11-01 or today";
+  return (task) => {
+    // Creation times carry a clock; only their day counts here.
+    const taskDay =
+      key === "createdAt" ? toDateKey(new Date(task[key])) : task[key];
+    switch (op) {
+      case "<":
+        return taskDay < day;
+      case "<=":
+        return taskDay <= day;
+      case ">":
+        return taskDay > day;
+      case ">=":
+        return taskDay >= day;
+      default:
+        return taskDay === day;
+    }
+  };
+};
+
+/** The test for `field:value`, or why it can't be built. */
+const parseFieldTerm = (
+  field: QueryField,
+  value: string,
+  projects: Project[]
+): QueryTerm["test"] | string => {
+  const lower = value.toLowerCase();
+  switch (field) {
+    case "status": {
+      // Projects can name the same status differently, so match every
+      // status whose id or name fits.
+      const statuses =
+        projects.length > 0
+          ? projects.flatMap((project) => getWorkflow(project))
+          : mergeWorkflows([]);
+      const ids = statuses
+        .filter(
+          (s) => s.id.toLowerCase() === lower || s.name.toLowerCase() === lower
+        )
+        .map((s) => s.id);
+      if (ids.length === 0) return `No status called "${value}"`;
+      return (task) => ids.includes(task.status);
+    }
+    case "priority":
+      if (!priorities.some((p) => p === lower)) {
+        return "Priority is low, medium or high";
+      }
+      return (task) => task.priority === lower;
+    case "project": {
+      const ids = projects
+        .filter((p) => p.id === value || p.name.toLowerCase() === lower)
+        .map((p) => p.id);
+      if (ids.length === 0) return `No project called "${value}"`;
+      return (task) => ids.includes(task.projectId);
+    }
+    case "due":
+      return parseDateTerm(value, "dueDate");
+    case "created":
+      return parseDateTerm(value, "createdAt");
+    case "is":
+      if (!isState(lower)) {
+        return `Try is:${Object.keys(stateTests).join(", is:")}`;
+      }
+      return stateTests[lower];
+  }
+};
+
+/**
+ * Parses a search query. `projects` are the ones the search covers; they
+ * resolve status and project names.
+ */
+export const parseTaskQuery = (
+  input: string,
+  projects: Project[]
+): ParsedQuery => {
+  const tokens = tokenize(input);
+  const terms: QueryTerm[] = [];
+
+  tokens.forEach((token) => {
+    const negate = token.text.length > 1 && token.text.startsWith("-");
+    const body = negate ? token.text.slice(1) : token.text;
+    if ((body.match(/"/g)?.length ?? 0) % 2 === 1) {
+      token.error = "Missing closing quote";
+      return;
+    }
+
+    const fieldMatch = /^([a-z]+):(.*)$/i.exec(body);
+    if (fieldMatch) {
+      const field = fieldMatch[1].toLowerCase();
+      const value = fieldMatch[2].replace(/"/g, "");
+      if (!isField(field)) {
+        token.error = `Unknown filter "${field}:"; try ${Object.keys(queryFields).join(":, ")}:`;
+        return;
+      }
+      if (!value) {
+        token.error = `${field}: needs a value`;
+        return;
+      }
+      const test = parseFieldTerm(field, value, projects);
+      if (typeof test === "string") {
+        token.error = test;
+      } else {
+        terms.push({ negate, test });
+      }
+      return;
+    }
+
+    // A bare `overdue` reads as the filter; quote it to search the word.
+    if (body.toLowerCase() === "overdue") {
+      terms.push({ negate, test: stateTests.overdue });
+      return;
+    }
+
+    const text = body.replace(/"/g, "").toLowerCase();
+    if (!text) return;
+    terms.push({
+      negate,
+      test: (task) =>
+        task.title.toLowerCase().includes(text) ||
+        task.description.toLowerCase().includes(text),
+    });
+  });
+
+  return { terms, tokens };
+};
+
+/**
+ * Picks from filter dropdowns as a query, e.g. `{ priority: "high" }` as
+ * `priority:high`, so they go through the same engine as typed searches.
+ * Unset and "all" values are left out.
+ */
+export const queryFromSelections = (
+  selections: Partial<Record<QueryField, string>>
+) =>
+  Object.entries(selections)
+    .filter(([, value]) => value && value !== "all")
+    .map(([field, value]) => `${field}:${quoteQueryValue(value!)}`)
+    .join(" ");
+
+export const matchesQuery = (
+  task: Task,
+  query: ParsedQuery,
+  context: QueryContext
+) => query.terms.every((term) => term.test(task, context) !== term.negate);
+
+export interface QuerySuggestion {
+  /** Replaces the token at the cursor. */
+  insert: string;
+  label: string;
+  hint?: string;
+}
+
+/**
+ * Completions for the token the cursor is in: filter names while typing a
+ * bare word, then values for the filter once its colon is typed.
+ */
+export const getQuerySuggestions = (
+  input: string,
+  cursor: number,
+  projects: Project[]
+): { start: number; end: number; suggestions: QuerySuggestion[] } => {
+  const token = tokenize(input).find(
+    (t) => t.start <= cursor && cursor <= t.end
+  ) ?? { text: "", start: cursor, end: cursor };
+  const typed = token.text.slice(0, cursor - token.start);
+  const sign = typed.startsWith("-") ? "-" : "";
+  const body = typed.slice(sign.length).toLowerCase();
+  const matching = (options: QuerySuggestion[]) =>
+    options.filter(
+      (option) =>
+        option.insert.toLowerCase().startsWith(sign + body) &&
+        option.insert.toLowerCase() !== sign + body
+    );
+
+  const colon = body.indexOf(":");
+  if (colon === -1) {
+    const fields = (Object.keys(queryFields) as QueryField[]).map((field) => ({
+      insert: `${sign}${field}:`,
+      label: `${field}:`,
+      hint: queryFields[field],
+    }));
+    return {
+      ...token,
+      suggestions: matching([
+        ...fields,
+        {
+          insert: `${sign}overdue`,
+          label: "overdue",
+          hint: "Same as is:overdue",
+        },
+      ]),
+    };
+  }
+
+  const field = body.slice(0, colon);
+  const values: Record<QueryField, string[]> = {
+    status: mergeWorkflows(projects).map((status) => status.name),
+    priority: [...priorities],
+    project: projects.map((project) => project.name),
+    due: ["today", "<today", ">today"],
+    created: ["today", "<today", ">today"],
+    is: Object.keys(stateTests),
+  };
+  if (!isField(field)) return { ...token, suggestions: [] };
+  // Typed values may still carry an opening quote.
+  const typedValue = body.slice(colon + 1).replace(/"/g, "");
+  return {
+    ...token,
+    suggestions: values[field]
+      .map((value) => ({
+        insert: `${sign}${field}:${quoteQueryValue(value)}`,
+        label: value,
+      }))
+      .filter(
+        (option) =>
+          option.label.toLowerCase().startsWith(typedValue) &&
+          option.label.toLowerCase() !== typedValue
+      ),
+  };
+};
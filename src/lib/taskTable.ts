@@ -0,0 +1,160 @@
+import type { Project, Task } from "@/store/useStore";
+import { mergeWorkflows } from "./workflow";
+
+export type TaskColumn =
+  "title" | "project" | "status" | "priority" | "dueDate" | "createdAt";
+
+export const taskColumnLabels: Record<TaskColumn, string> = {
+  title: "Title",
+  project: "Project",
+  status: "Status",
+  priority: "Priority",
+  dueDate: "Due Date",
+  createdAt: "Created",
+};
+
+export type SortDirection = "asc" | "desc";
+
+export interface ColumnSort {
+  column: TaskColumn;
+  direction: SortDirection;
+}
+
+export interface TableLayout {
+  /** Every column in display order; hidden ones keep their place. */
+  columns: { id: TaskColumn; visible: boolean }[];
+  /** Sort keys by precedence; ties on the first fall to the next. */
+  sort: ColumnSort[];
+}
+
+export const defaultTableLayout: TableLayout = {
+  columns: (Object.keys(taskColumnLabels) as TaskColumn[]).map((id) => ({
+    id,
+    visible: true,
+  })),
+  sort: [{ column: "dueDate", direction: "asc" }],
+};
+
+const isColumn = (value: unknown): value is TaskColumn =>
+  typeof value === "string" && value in taskColumnLabels;
+
+/**
+ * A stored layout, tidied up: unknown columns are dropped, columns added
+ * since it was saved are appended, and the title always stays visible.
+ * Anything unreadable falls back to the default.
+ */
+export const normalizeTableLayout = (stored: unknown): TableLayout => {
+  if (!stored || typeof stored !== "object") return defaultTableLayout;
+  const { columns, sort } = stored as Partial<
+    Record<keyof TableLayout, unknown>
+  >;
+  if (!Array.isArray(columns) || !Array.isArray(sort)) {
+    return defaultTableLayout;
+  }
+  const kept = columns.filter(
+    (column, index): column is TableLayout["columns"][number] =>
+      isColumn(column?.id) &&
+      columns.findIndex((other) => other?.id === column.id) === index
+  );
+  const missing = defaultTableLayout.columns.filter(
+    (column) => !kept.some((k) => k.id === column.id)
+  );
+  return {
+    columns: [...kept, ...missing].map(({ id, visible }) => ({
+      id,
+      visible: id === "title" || visible !== false,
+    })),
+    sort: sort.filter(
+      (key, index): key is ColumnSort =>
+        isColumn(key?.column) &&
+        (key.direction === "asc" || key.direction === "desc") &&
+        sort.findIndex((other) => other?.column === key.column) === index
+    ),
+  };
+};
+
+/**
+ * The sort after a header click. A plain click sorts by that column alone,
+ * flipping its direction if it already led; with `additive` (shift-click)
+ * the column is added as a further key, flipped, or dropped after a
+ * descending pass.
+ */
+export const nextSort = (
+  sort: ColumnSort[],
+  column: TaskColumn,
+  additive: boolean
+): ColumnSort[] => {
+  const current = sort.find((key) => key.column === column);
+  if (!additive) {
+    const direction =
+      sort.length === 1 && current?.direction === "asc" ? "desc" : "asc";
+    return [{ column, direction }];
+  }
+  if (!current) return [...sort, { column, direction: "asc" }];
+  if (current.direction === "asc") {
+    return sort.map((key) =>
+      key.column === column ? { column, direction: "desc" } : key
+    );
+  }
+  return sort.filter((key) => key.column !== column);
+};
+
+/** Swaps two columns' places, keeping each one's visibility. */
+export const swapColumns = (
+  layout: TableLayout,
+  a: TaskColumn,
+  b: TaskColumn
+): TableLayout => ({
+  ...layout,
+  columns: layout.columns.map((column) =>
+    column.id === a
+      ? layout.columns.find((c) => c.id === b)!
+      : column.id === b
+        ? layout.columns.find((c) => c.id === a)!
+        : column
+  ),
+});
+
+const priorityRank = { low: 0, medium: 1, high: 2 } as const;
+
+/** Tasks ordered by each sort key in turn, falling back to title. */
+export const sortTasks = (
+  tasks: Task[],
+  projects: Project[],
+  sort: ColumnSort[]
+) => {
+  const projectName = (task: Task) =>
+    projects.find((p) => p.id === task.projectId)?.name ?? "";
+  // Statuses sort in workflow order, across projects merged by id; any
+  // status no workflow knows goes last.
+  const statusOrder = mergeWorkflows(projects).map((status) => status.id);
+  const statusRank = (task: Task) => {
+    const index = statusOrder.indexOf(task.status);
+    return index === -1 ? statusOrder.length : index;
+  };
+
+  const compare = (a: Task, b: Task, column: TaskColumn) => {
+    switch (column) {
+      case "title":
+        return a.title.localeCompare(b.title);
+      case "project":
+        return projectName(a).localeCompare(projectName(b));
+      case "status":
+        return statusRank(a) - statusRank(b);
+      case "priority":
+        return priorityRank[a.priority] - priorityRank[b.priority];
+      case "dueDate":
+        return a.dueDate.localeCompare(b.dueDate);
+      case "createdAt":
+        return a.createdAt.localeCompare(b.createdAt);
+    }
+  };
+
+  return [...tasks].sort((a, b) => {
+    for (const { column, direction } of sort) {
+      const result = compare(a, b, column);
+      if (result !== 0) return direction === "asc" ? result : -result;
+    }
+    return a.title.localeCompare(b.title);
+  });
+};
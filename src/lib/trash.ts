@@ -0,0 +1,54 @@
+import type { Project, Task } from "@/store/useStore";
+import { DAY_MS } from "./analytics";
+
+/** Retention periods offered in Settings; 0 keeps trash until emptied. */
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90, 0];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const isTrashed = (item: Project | Task) => !!item.deletedAt;
+
+/** The workspace minus anything in the trash. */
+export const withoutTrash = (projects: Project[], tasks: Task[]) => ({
+  projects: projects.filter((p) => !isTrashed(p)),
+  tasks: tasks.filter((t) => !isTrashed(t)),
+});
+
+/**
+ * Trashed items that were deleted in their own right. Tasks that went along
+ * with a trashed project or parent task are listed under that instead.
+ */
+export const getTrashRoots = (projects: Project[], tasks: Task[]) => {
+  const trashedProjects = projects.filter(isTrashed);
+  const trashedIds = new Set([
+    ...trashedProjects.map((p) => p.id),
+    ...tasks.filter(isTrashed).map((t) => t.id),
+  ]);
+  return {
+    projects: trashedProjects,
+    tasks: tasks.filter(
+      (t) =>
+        isTrashed(t) &&
+        !trashedIds.has(t.projectId) &&
+        !(t.parentId && trashedIds.has(t.parentId))
+    ),
+  };
+};
+
+/**
+ * When a trashed item gets purged, or undefined if it's kept until the
+ * trash is emptied by hand.
+ */
+export const getPurgeDate = (item: Project | Task, retentionDays: number) =>
+  item.deletedAt && retentionDays > 0
+    ? new Date(new Date(item.deletedAt).getTime() + retentionDays * DAY_MS)
+    : undefined;
+
+export const isPastRetention = (
+  item: Project | Task,
+  retentionDays: number,
+  now = Date.now()
+) => {
+  const purgeDate = getPurgeDate(item, retentionDays);
+  return !!purgeDate && purgeDate.getTime() <= now;
+};
@@ -0,0 +1,59 @@
+import type { Project, Task, WorkflowStatus } from "@/store/useStore";
+
+/** The workflow every project starts with; existing task statuses map onto it. */
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: "todo", name: "To Do", color: "#6b7280", isDone: false },
+  { id: "in-progress", name: "In Progress", color: "#f59e0b", isDone: false },
+  { id: "completed", name: "Completed", color: "#16a34a", isDone: true },
+];
+
+export const statusColors = [
+  "#6b7280",
+  "#6366f1",
+  "#0ea5e9",
+  "#14b8a6",
+  "#f59e0b",
+  "#ec4899",
+  "#8b5cf6",
+  "#16a34a",
+];
+
+export const getWorkflow = (project?: Project): WorkflowStatus[] =>
+  project?.statuses?.length ? project.statuses : DEFAULT_WORKFLOW;
+
+export const findStatus = (
+  project: Project | undefined,
+  statusId: string
+): WorkflowStatus | undefined =>
+  getWorkflow(project).find((status) => status.id === statusId);
+
+/**
+ * Done-ness drives completion rates and overdue checks. Unknown statuses are
+ * treated as open so a task never silently drops out of those numbers.
+ */
+export const isTaskDone = (task: Task, projects: Project[]) => {
+  const project = projects.find((p) => p.id === task.projectId);
+  return findStatus(project, task.status)?.isDone ?? false;
+};
+
+/** Statuses across several projects, merged by id in workflow order. */
+export const mergeWorkflows = (projects: Project[]): WorkflowStatus[] => {
+  const merged = new Map<string, WorkflowStatus>();
+  const sources = projects.length > 0 ? projects : [undefined];
+  sources.forEach((project) =>
+    getWorkflow(project).forEach((status) => {
+      if (!merged.has(status.id)) merged.set(status.id, status);
+    })
+  );
+  return [...merged.values()];
+};
+
+/** The status a task moves to when ticked off, and back when unticked. */
+export const getToggleStatus = (project: Project | undefined, task: Task) => {
+  const workflow = getWorkflow(project);
+  const done = findStatus(project, task.status)?.isDone ?? false;
+  const target = done
+    ? workflow.find((status) => !status.isDone)
+    : workflow.find((status) => status.isDone);
+  return target?.id ?? task.status;
+};
@@ -0,0 +1,97 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { ActivityList } from "@/components/activity/ActivityList";
+import { MAX_ACTIVITY_ENTRIES } from "@/lib/activity";
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  show: {
+    opacity: 1,
+    transition: { staggerChildren: 0.05 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  show: { opacity: 1, y: 0 },
+};
+
+export default function Activity() {
+  const { activity } = useStore();
+  const { projects } = useWorkspace();
+  const [projectFilter, setProjectFilter] = useState("all");
+  const [typeFilter, setTypeFilter] = useState("all");
+
+  const entries = useMemo(
+    () =>
+      activity.filter(
+        (entry) =>
+          (projectFilter === "all" || entry.projectId === projectFilter) &&
+          (typeFilter === "all" || entry.entityType === typeFilter)
+      ),
+    [activity, projectFilter, typeFilter]
+  );
+
+  return (
+    <motion.div
+      variants={containerVariants}
+      initial="hidden"
+      animate="show"
+      className="space-y-6"
+    >
+      {/* Header */}
+      <motion.div variants={itemVariants}>
+        <h1 className="text-3xl font-bold text-foreground">Activity</h1>
+        <p className="text-muted-foreground mt-1">
+          Every change across your workspace, newest first. The latest{" "}
+          {MAX_ACTIVITY_ENTRIES} entries are kept.
+        </p>
+      </motion.div>
+
+      {/* Filters */}
+      <motion.div variants={itemVariants} className="flex flex-wrap gap-2">
+        <Select value={projectFilter} onValueChange={setProjectFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Projects</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Types</SelectItem>
+            <SelectItem value="project">Projects</SelectItem>
+            <SelectItem value="task">Tasks</SelectItem>
+          </SelectContent>
+        </Select>
+      </motion.div>
+
+      <motion.div variants={itemVariants}>
+        <Card>
+          <CardContent className="p-6">
+            <ActivityList entries={entries} />
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,414 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  endOfDay,
+  format,
+  startOfWeek,
+  subDays,
+  subWeeks,
+} from "date-fns";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { CheckCircle2, Clock, ListTodo, TrendingUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { ChartConfig } from "@/components/ui/chart";
+import { getWorkflow, isTaskDone, mergeWorkflows } from "@/lib/workflow";
+import {
+  DAY_MS,
+  getCompletionTimes,
+  getCycleTime,
+  getStatusAt,
+  isDoneStatus,
+} from "@/lib/analytics";
+import { useWorkspace } from "@/hooks/use-workspace";
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  show: {
+    opacity: 1,
+    transition: { staggerChildren: 0.1 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  show: { opacity: 1, y: 0 },
+};
+
+const ranges = [
+  { days: 14, label: "Last 14 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const THROUGHPUT_WEEKS = 12;
+
+const burndownConfig = {
+  scope: { label: "Scope", color: "hsl(var(--muted-foreground))" },
+  remaining: { label: "Remaining", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const throughputConfig = {
+  completed: { label: "Completed", color: "hsl(var(--primary))" },
+  cycleDays: { label: "Avg cycle time (days)", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+const formatDays = (ms: number) => (ms / DAY_MS).toFixed(1);
+
+export default function Analytics() {
+  const { projects, tasks } = useWorkspace();
+  const [projectFilter, setProjectFilter] = useState("all");
+  const [rangeDays, setRangeDays] = useState(30);
+
+  const project = projects.find((p) => p.id === projectFilter);
+  const scopedTasks = useMemo(
+    () =>
+      projectFilter === "all"
+        ? tasks
+        : tasks.filter((t) => t.projectId === projectFilter),
+    [tasks, projectFilter]
+  );
+
+  // Oldest status at the bottom of the stack, so work flows upward.
+  const statuses = useMemo(
+    () => (project ? getWorkflow(project) : mergeWorkflows(projects)),
+    [project, projects]
+  );
+
+  const daily = useMemo(() => {
+    const today = new Date();
+    return eachDayOfInterval({
+      start: subDays(today, rangeDays - 1),
+      end: today,
+    }).map((day) => {
+      const at = endOfDay(day).getTime();
+      const point: Record<string, string | number> = {
+        date: format(day, "MMM d"),
+        scope: 0,
+        remaining: 0,
+      };
+      statuses.forEach((status) => (point[status.id] = 0));
+      scopedTasks.forEach((task) => {
+        const status = getStatusAt(task, at);
+        if (status === undefined) return;
+        point.scope = (point.scope as number) + 1;
+        if (!isDoneStatus(task, status, projects)) {
+          point.remaining = (point.remaining as number) + 1;
+        }
+        if (status in point) point[status] = (point[status] as number) + 1;
+      });
+      return point;
+    });
+  }, [scopedTasks, statuses, projects, rangeDays]);
+
+  const weekly = useMemo(() => {
+    const today = new Date();
+    const completions = scopedTasks.flatMap((task) =>
+      getCompletionTimes(task, projects).map((at) => ({ task, at }))
+    );
+    return eachWeekOfInterval({
+      start: subWeeks(startOfWeek(today), THROUGHPUT_WEEKS - 1),
+      end: today,
+    }).map((weekStart) => {
+      const from = weekStart.getTime();
+      const to = from + 7 * DAY_MS;
+      const done = completions.filter(({ at }) => at >= from && at < to);
+      const cycleTimes = done
+        .map(({ task }) => getCycleTime(task, projects))
+        .filter((ms): ms is number => ms !== undefined);
+      return {
+        week: format(weekStart, "MMM d"),
+        completed: done.length,
+        cycleDays: cycleTimes.length
+          ? Number(
+              formatDays(
+                cycleTimes.reduce((sum, ms) => sum + ms, 0) / cycleTimes.length
+              )
+            )
+          : null,
+      };
+    });
+  }, [scopedTasks, projects]);
+
+  const stats = useMemo(() => {
+    const since = subDays(new Date(), rangeDays).getTime();
+    const completedInRange = scopedTasks.filter((task) =>
+      getCompletionTimes(task, projects).some((at) => at >= since)
+    );
+    const cycleTimes = completedInRange
+      .map((task) => getCycleTime(task, projects))
+      .filter((ms): ms is number => ms !== undefined);
+    const throughput =
+      weekly.reduce((sum, week) => sum + week.completed, 0) / weekly.length;
+    return {
+      completed: completedInRange.length,
+      open: scopedTasks.filter((t) => !isTaskDone(t, projects)).length,
+      throughput: throughput.toFixed(1),
+      cycleTime: cycleTimes.length
+        ? formatDays(
+            cycleTimes.reduce((sum, ms) => sum + ms, 0) / cycleTimes.length
+          )
+        : "—",
+    };
+  }, [scopedTasks, projects, rangeDays, weekly]);
+
+  const flowConfig = useMemo(
+    () =>
+      Object.fromEntries(
+        statuses.map((status) => [
+          status.id,
+          { label: status.name, color: status.color },
+        ])
+      ) satisfies ChartConfig,
+    [statuses]
+  );
+
+  const statCards = [
+    {
+      title: "Open Tasks",
+      value: stats.open,
+      icon: ListTodo,
+      color: "text-primary",
+      bgColor: "bg-primary/10",
+    },
+    {
+      title: "Completed",
+      value: stats.completed,
+      icon: CheckCircle2,
+      color: "text-success",
+      bgColor: "bg-success/10",
+    },
+    {
+      title: "Weekly Throughput",
+      value: stats.throughput,
+      icon: TrendingUp,
+      color: "text-accent",
+      bgColor: "bg-accent/10",
+    },
+    {
+      title: "Avg Cycle Time (days)",
+      value: stats.cycleTime,
+      icon: Clock,
+      color: "text-warning",
+      bgColor: "bg-warning/10",
+    },
+  ];
+
+  return (
+    <motion.div
+      variants={containerVariants}
+      initial="hidden"
+      animate="show"
+      className="space-y-8"
+    >
+      {/* Header */}
+      <motion.div
+        variants={itemVariants}
+        className="flex flex-col sm:flex-row sm:items-end justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Analytics</h1>
+          <p className="text-muted-foreground mt-1">
+            How work flows through your projects over time
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Projects</SelectItem>
+              {projects.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(rangeDays)}
+            onValueChange={(value) => setRangeDays(Number(value))}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ranges.map((range) => (
+                <SelectItem key={range.days} value={String(range.days)}>
+                  {range.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </motion.div>
+
+      {/* Stats */}
+      <motion.div
+        variants={itemVariants}
+        className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4"
+      >
+        {statCards.map((stat) => (
+          <Card key={stat.title} className="relative overflow-hidden">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    {stat.title}
+                  </p>
+                  <p className="text-3xl font-bold text-foreground mt-1">
+                    {stat.value}
+                  </p>
+                </div>
+                <div
+                  className={`h-12 w-12 rounded-xl ${stat.bgColor} flex items-center justify-center`}
+                >
+                  <stat.icon className={`h-6 w-6 ${stat.color}`} />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </motion.div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Burndown */}
+        <motion.div variants={itemVariants}>
+          <Card>
+            <CardHeader>
+              <CardTitle>Burndown</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={burndownConfig} className="h-64 w-full">
+                <LineChart data={daily} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line
+                    dataKey="scope"
+                    type="stepAfter"
+                    stroke="var(--color-scope)"
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                  <Line
+                    dataKey="remaining"
+                    type="stepAfter"
+                    stroke="var(--color-remaining)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Cumulative flow */}
+        <motion.div variants={itemVariants}>
+          <Card>
+            <CardHeader>
+              <CardTitle>Cumulative Flow</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={flowConfig} className="h-64 w-full">
+                <AreaChart data={daily} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {[...statuses].reverse().map((status) => (
+                    <Area
+                      key={status.id}
+                      dataKey={status.id}
+                      type="stepAfter"
+                      stackId="flow"
+                      stroke={`var(--color-${status.id})`}
+                      fill={`var(--color-${status.id})`}
+                      fillOpacity={0.4}
+                    />
+                  ))}
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      {/* Throughput */}
+      <motion.div variants={itemVariants}>
+        <Card>
+          <CardHeader>
+            <CardTitle>Weekly Throughput & Cycle Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={throughputConfig} className="h-64 w-full">
+              <ComposedChart data={weekly} margin={{ left: -20, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickLine={false} />
+                <YAxis
+                  yAxisId="completed"
+                  allowDecimals={false}
+                  tickLine={false}
+                />
+                <YAxis
+                  yAxisId="cycleDays"
+                  orientation="right"
+                  tickLine={false}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar
+                  yAxisId="completed"
+                  dataKey="completed"
+                  fill="var(--color-completed)"
+                  radius={4}
+                />
+                <Line
+                  yAxisId="cycleDays"
+                  dataKey="cycleDays"
+                  stroke="var(--color-cycleDays)"
+                  strokeWidth={2}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ChartContainer>
+            <p className="text-xs text-muted-foreground mt-4">
+              Throughput and cycle time count status changes recorded since
+              history tracking began; earlier completions aren't included.
+            </p>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,355 @@
+import { createContext, useContext, useMemo, useState } from "react";
+import type { HTMLAttributes } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  addMonths,
+  addWeeks,
+  endOfWeek,
+  format,
+  isSameDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import type { DragEndEvent, DragStartEvent } from "@dnd-kit/core";
+import type { CalendarDay, CalendarWeek, Modifiers } from "react-day-picker";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useStore } from "@/store/useStore";
+import type { Task } from "@/store/useStore";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { useTaskFilters } from "@/hooks/use-task-filters";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { CalendarExport } from "@/components/tasks/CalendarExport";
+import { TaskFilterBar } from "@/components/tasks/TaskFilterBar";
+import { isTaskDone } from "@/lib/workflow";
+import { byOrder } from "@/lib/ordering";
+import { planFieldChange } from "@/lib/bulkEdit";
+import { parseDateKey, toDateKey } from "@/lib/dates";
+import { cn } from "@/lib/utils";
+
+type CalendarView = "month" | "week";
+
+// Month cells show this many tasks before collapsing the rest into "+N more".
+const MONTH_CELL_LIMIT = 3;
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  show: {
+    opacity: 1,
+    transition: { staggerChildren: 0.05 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  show: { opacity: 1, y: 0 },
+};
+
+interface CalendarContextValue {
+  view: CalendarView;
+  anchor: Date;
+  tasksByDate: Map<string, Task[]>;
+}
+
+// DayPicker's custom components must keep a stable identity, so the data
+// they render is passed down through context instead of closures.
+const CalendarContext = createContext<CalendarContextValue | null>(null);
+
+const useCalendarContext = () => useContext(CalendarContext)!;
+
+export default function CalendarPage() {
+  const { updateTasks } = useStore();
+  // The legend only lists projects whose tasks can show up here.
+  const { projects } = useWorkspace({ hideArchived: true });
+  const { filters, setFilter, filteredTasks } = useTaskFilters();
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+
+  const tasksByDate = useMemo(() => {
+    const groups = new Map<string, Task[]>();
+    [...filteredTasks].sort(byOrder).forEach((task) => {
+      groups.set(task.dueDate, [...(groups.get(task.dueDate) ?? []), task]);
+    });
+    return groups;
+  }, [filteredTasks]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const step = (offset: number) =>
+    setAnchor((current) =>
+      view === "month" ? addMonths(current, offset) : addWeeks(current, offset)
+    );
+
+  const handleDragStart = ({ active }: DragStartEvent) =>
+    setActiveTask(filteredTasks.find((t) => t.id === active.id) ?? null);
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setActiveTask(null);
+    const task = filteredTasks.find((t) => t.id === active.id);
+    if (!task || !over || over.id === task.dueDate) return;
+
+    const dueDate = String(over.id);
+    // A start date after the new due date is pulled back to it.
+    updateTasks(planFieldChange([task], { dueDate }));
+    toast({
+      title: "Task rescheduled",
+      description: `${task.title} is now due ${format(parseDateKey(dueDate), "MMM d, yyyy")}.`,
+      action: undoAction(),
+    });
+  };
+
+  const title =
+    view === "month"
+      ? format(anchor, "MMMM yyyy")
+      : `${format(startOfWeek(anchor), "MMM d")} – ${format(endOfWeek(anchor), "MMM d, yyyy")}`;
+
+  return (
+    <motion.div
+      variants={containerVariants}
+      initial="hidden"
+      animate="show"
+      className="space-y-6"
+    >
+      {/* Header */}
+      <motion.div
+        variants={itemVariants}
+        className="flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Calendar</h1>
+          <p className="text-muted-foreground mt-1">
+            Plan tasks by due date and drag them to reschedule
+          </p>
+        </div>
+        <CalendarExport
+          defaultProjectId={
+            filters.project === "all" ? undefined : filters.project
+          }
+        />
+      </motion.div>
+
+      {/* Filters */}
+      <motion.div variants={itemVariants}>
+        <TaskFilterBar filters={filters} onChange={setFilter} />
+      </motion.div>
+
+      <motion.div variants={itemVariants}>
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => step(-1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => step(1)}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAnchor(new Date())}
+                >
+                  Today
+                </Button>
+                <h2 className="text-lg font-semibold text-foreground ml-2">
+                  {title}
+                </h2>
+              </div>
+              <Tabs
+                value={view}
+                onValueChange={(value) => setView(value as CalendarView)}
+              >
+                <TabsList>
+                  <TabsTrigger value="month">Month</TabsTrigger>
+                  <TabsTrigger value="week">Week</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+
+            <CalendarContext.Provider value={{ view, anchor, tasksByDate }}>
+              <DndContext
+                sensors={sensors}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragCancel={() => setActiveTask(null)}
+              >
+                <Calendar
+                  month={startOfMonth(anchor)}
+                  hideNavigation
+                  className="w-full p-0"
+                  classNames={{
+                    root: "w-full",
+                    month_caption: "sr-only",
+                    day: "flex-1 min-w-0 p-0.5",
+                    today: "",
+                    outside: "",
+                    weekday:
+                      "flex-1 text-muted-foreground text-xs font-medium pb-2 select-none",
+                  }}
+                  components={{ Day: DayCell, Week: WeekRow }}
+                />
+                <DragOverlay>
+                  {activeTask && <TaskChip task={activeTask} overlay />}
+                </DragOverlay>
+              </DndContext>
+            </CalendarContext.Provider>
+
+            <div className="flex flex-wrap gap-3 pt-2">
+              {projects.map((project) => (
+                <span
+                  key={project.id}
+                  className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                >
+                  <span
+                    className="h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: project.color }}
+                  />
+                  {project.name}
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+/** In week view only the row holding the anchor date is shown. */
+function WeekRow({
+  week,
+  className,
+  ...props
+}: { week: CalendarWeek } & HTMLAttributes<HTMLTableRowElement>) {
+  const { view, anchor } = useCalendarContext();
+  const hidden =
+    view === "week" && !week.days.some((d) => isSameDay(d.date, anchor));
+  return <tr {...props} className={cn(className, hidden && "hidden")} />;
+}
+
+function DayCell({
+  day,
+  modifiers,
+  ...props
+}: {
+  day: CalendarDay;
+  modifiers: Modifiers;
+} & HTMLAttributes<HTMLDivElement>) {
+  const { view, tasksByDate } = useCalendarContext();
+  const key = toDateKey(day.date);
+  const { setNodeRef, isOver } = useDroppable({ id: key });
+
+  const dayTasks = tasksByDate.get(key) ?? [];
+  const visible =
+    view === "month" ? dayTasks.slice(0, MONTH_CELL_LIMIT) : dayTasks;
+  const hidden = dayTasks.length - visible.length;
+
+  return (
+    // DayPicker's own day button is replaced by the task list below.
+    <td {...props}>
+      <div
+        ref={setNodeRef}
+        className={cn(
+          "flex flex-col gap-1 rounded-md border border-border p-1.5 text-left transition-colors",
+          view === "month" ? "h-28" : "min-h-[24rem]",
+          day.outside && "bg-muted/40",
+          isOver && "bg-primary/5 border-primary"
+        )}
+      >
+        <span
+          className={cn(
+            "flex h-6 w-6 items-center justify-center rounded-full text-xs",
+            modifiers.today
+              ? "bg-primary text-primary-foreground font-semibold"
+              : day.outside
+                ? "text-muted-foreground"
+                : "text-foreground"
+          )}
+        >
+          {format(day.date, "d")}
+        </span>
+        <div className="flex flex-col gap-1 overflow-hidden">
+          {visible.map((task) => (
+            <DraggableTask key={task.id} task={task} />
+          ))}
+          {hidden > 0 && (
+            <span className="text-[11px] text-muted-foreground px-1">
+              +{hidden} more
+            </span>
+          )}
+        </div>
+      </div>
+    </td>
+  );
+}
+
+function DraggableTask({ task }: { task: Task }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: task.id,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={cn(
+        "touch-none rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        isDragging && "opacity-40"
+      )}
+    >
+      <TaskChip task={task} />
+    </div>
+  );
+}
+
+function TaskChip({ task, overlay }: { task: Task; overlay?: boolean }) {
+  const { projects } = useStore();
+  const project = projects.find((p) => p.id === task.projectId);
+  const color = project?.color ?? "#6b7280";
+  const done = isTaskDone(task, projects);
+
+  return (
+    <Link
+      to={`/tasks/${task.id}`}
+      title={project ? `${task.title} · ${project.name}` : task.title}
+      className={cn(
+        "block truncate rounded border-l-2 px-1.5 py-0.5 text-xs font-medium text-foreground",
+        done && "line-through text-muted-foreground",
+        overlay && "shadow-custom-md cursor-grabbing"
+      )}
+      style={{ backgroundColor: color + "20", borderLeftColor: color }}
+    >
+      {task.title}
+    </Link>
+  );
+}
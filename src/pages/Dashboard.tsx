@@ -13,7 +13,9 @@ import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useStore } from '@/store/useStore';
+import { useWorkspace } from '@/hooks/use-workspace';
 import { format, isAfter, isBefore, addDays } from 'date-fns';
+import { isTaskDone, mergeWorkflows } from '@/lib/workflow';
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -29,18 +31,23 @@ const itemVariants = {
 };
 
 export default function Dashboard() {
-  const { user, projects, tasks } = useStore();
+  const { user } = useStore();
+  const { projects, tasks } = useWorkspace({ hideArchived: true });
 
   const stats = useMemo(() => {
     const totalTasks = tasks.length;
-    const completedTasks = tasks.filter(t => t.status === 'completed').length;
-    const inProgressTasks = tasks.filter(t => t.status === 'in-progress').length;
-    const todoTasks = tasks.filter(t => t.status === 'todo').length;
-    const overdueTasks = tasks.filter(t => 
-      t.status !== 'completed' && isBefore(new Date(t.dueDate), new Date())
+    const openTasks = tasks.filter(t => !isTaskDone(t, projects));
+    const completedTasks = totalTasks - openTasks.length;
+    // Projects with different workflows share statuses by id, so counts are
+    // grouped the same way the Tasks board groups its columns.
+    const statusCounts = mergeWorkflows(projects).map(status => ({
+      ...status,
+      count: tasks.filter(t => t.status === status.id).length
+    }));
+    const overdueTasks = openTasks.filter(t => 
+      isBefore(new Date(t.dueDate), new Date())
     ).length;
-    const upcomingTasks = tasks.filter(t => 
-      t.status !== 'completed' && 
+    const upcomingTasks = openTasks.filter(t => 
       isAfter(new Date(t.dueDate), new Date()) &&
       isBefore(new Date(t.dueDate), addDays(new Date(), 7))
     );
@@ -49,9 +56,7 @@ export default function Dashboard() {
     return {
       totalProjects: projects.length,
       totalTasks,
-      completedTasks,
-      inProgressTasks,
-      todoTasks,
+      statusCounts,
       overdueTasks,
       upcomingTasks,
       completionRate
@@ -153,53 +158,26 @@ export default function Dashboard() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="h-3 w-3 rounded-full bg-muted-foreground" />
-                    <span className="text-sm font-medium">To Do</span>
+              {stats.statusCounts.map((status) => (
+                <div key={status.id} className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="h-3 w-3 rounded-full" style={{ backgroundColor: status.color }} />
+                      <span className="text-sm font-medium">{status.name}</span>
+                    </div>
+                    <span className="text-sm text-muted-foreground">{status.count} tasks</span>
                   </div>
-                  <span className="text-sm text-muted-foreground">{stats.todoTasks} tasks</span>
-                </div>
-                <div className="h-2 rounded-full bg-secondary overflow-hidden">
-                  <div 
-                    className="h-full bg-muted-foreground transition-all duration-500"
-                    style={{ width: `${stats.totalTasks > 0 ? (stats.todoTasks / stats.totalTasks) * 100 : 0}%` }}
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="h-3 w-3 rounded-full bg-accent" />
-                    <span className="text-sm font-medium">In Progress</span>
+                  <div className="h-2 rounded-full bg-secondary overflow-hidden">
+                    <div 
+                      className="h-full transition-all duration-500"
+                      style={{
+                        width: `${stats.totalTasks > 0 ? (status.count / stats.totalTasks) * 100 : 0}%`,
+                        backgroundColor: status.color
+                      }}
+                    />
                   </div>
-                  <span className="text-sm text-muted-foreground">{stats.inProgressTasks} tasks</span>
-                </div>
-                <div className="h-2 rounded-full bg-secondary overflow-hidden">
-                  <div 
-                    className="h-full bg-accent transition-all duration-500"
-                    style={{ width: `${stats.totalTasks > 0 ? (stats.inProgressTasks / stats.totalTasks) * 100 : 0}%` }}
-                  />
                 </div>
-              </div>
-
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="h-3 w-3 rounded-full bg-success" />
-                    <span className="text-sm font-medium">Completed</span>
-                  </div>
-                  <span className="text-sm text-muted-foreground">{stats.completedTasks} tasks</span>
-                </div>
-                <div className="h-2 rounded-full bg-secondary overflow-hidden">
-                  <div 
-                    className="h-full bg-success transition-all duration-500"
-                    style={{ width: `${stats.totalTasks > 0 ? (stats.completedTasks / stats.totalTasks) * 100 : 0}%` }}
-                  />
-                </div>
-              </div>
+              ))}
 
               <Link to="/tasks">
                 <Button variant="outline" className="w-full mt-4">
@@ -278,7 +256,7 @@ export default function Dashboard() {
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                 {recentProjects.map((project) => {
                   const projectTasks = tasks.filter(t => t.projectId === project.id);
-                  const completedCount = projectTasks.filter(t => t.status === 'completed').length;
+                  const completedCount = projectTasks.filter(t => isTaskDone(t, projects)).length;
                   const progress = projectTasks.length > 0 ? Math.round((completedCount / projectTasks.length) * 100) : 0;
 
                   return (
@@ -32,7 +32,7 @@ export default function Login() {
   });
 
   const onSubmit = async (data: LoginForm) => {
-    const success = login(data.email, data.password);
+    const success = await login(data.email, data.password);
     if (success) {
       toast({ title: 'Welcome back!', description: 'You have been logged in successfully.' });
       navigate('/dashboard');
@@ -1,20 +1,29 @@
-import { useState, useMemo } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useCallback, useEffect, useState, useMemo } from "react";
+import {
+  useParams,
+  Link,
+  Outlet,
+  useLocation,
+  useNavigate,
+} from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { format } from "date-fns";
 import {
   ArrowLeft,
   Plus,
-  Search,
   CheckSquare,
   MoreHorizontal,
   Pencil,
   Trash2,
   Calendar,
   Flag,
+  Workflow,
+  ListTree,
+  CornerDownRight,
+  ArchiveRestore,
+  Download,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -25,6 +34,7 @@ import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -51,30 +61,43 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useStore } from "@/store/useStore";
-import type { Task } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { ChecklistItem, Task } from "@/store/useStore";
 import { toast } from "@/hooks/use-toast";
-
-const taskSchema = z.object({
-  title: z
-    .string()
-    .min(1, "Task title is required")
-    .max(100, "Title must be less than 100 characters"),
-  description: z
-    .string()
-    .max(500, "Description must be less than 500 characters"),
-  status: z.enum(["todo", "in-progress", "completed"]),
-  priority: z.enum(["low", "medium", "high"]),
-  dueDate: z.string().min(1, "Due date is required"),
-});
-
-type TaskForm = z.infer<typeof taskSchema>;
-
-const statusColors = {
-  todo: "bg-muted text-muted-foreground",
-  "in-progress": "bg-accent/20 text-accent",
-  completed: "bg-success/20 text-success",
-};
+import { undoAction } from "@/hooks/use-undo";
+import { findStatus, getToggleStatus, getWorkflow } from "@/lib/workflow";
+import { WorkflowDialog } from "@/components/projects/WorkflowDialog";
+import { TaskProgress } from "@/components/tasks/TaskProgress";
+import { BlockedBadge } from "@/components/tasks/BlockedBadge";
+import { DependencyPicker } from "@/components/tasks/DependencyPicker";
+import { ChecklistEditor } from "@/components/tasks/ChecklistEditor";
+import { StatusChangeDialog } from "@/components/tasks/StatusChangeDialog";
+import { BulkActionBar } from "@/components/tasks/BulkActionBar";
+import { TaskSelectCheckbox } from "@/components/tasks/TaskSelectCheckbox";
+import { TaskTimeline } from "@/components/tasks/TaskTimeline";
+import { TaskCsvImport } from "@/components/tasks/TaskCsvImport";
+import { ActivityList } from "@/components/activity/ActivityList";
+import { getDescendantIds } from "@/lib/subtasks";
+import { isArchived } from "@/lib/archive";
+import { taskSchema } from "@/lib/forms";
+import type { TaskForm } from "@/lib/forms";
+import { useStatusChange } from "@/hooks/use-status-change";
+import { useListSelection } from "@/hooks/use-list-selection";
+import { useTaskSelection } from "@/hooks/use-task-selection";
+import { useTableLayout } from "@/hooks/use-table-layout";
+import { TaskTable } from "@/components/tasks/TaskTable";
+import { sortTasks } from "@/lib/taskTable";
+import {
+  matchesQuery,
+  parseTaskQuery,
+  queryFromSelections,
+} from "@/lib/taskQuery";
+import { TaskQueryInput } from "@/components/tasks/TaskQueryInput";
+import { useShortcut } from "@/hooks/use-shortcuts";
+import { downloadFile } from "@/lib/download";
+import { tasksToCsv } from "@/lib/taskCsv";
 
 const priorityColors = {
   low: "bg-muted text-muted-foreground",
@@ -97,9 +120,23 @@ const itemVariants = {
 
 export default function ProjectDetail() {
   const { id } = useParams<{ id: string }>();
-  const { projects, tasks, addTask, updateTask, deleteTask } = useStore();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const {
+    activity,
+    addTask,
+    updateTask,
+    setBlockedBy,
+    deleteTask,
+    batch,
+    unarchiveProject,
+  } = useStore();
+  const { projects, tasks } = useWorkspace();
 
   const project = projects.find((p) => p.id === id);
+  const workflow = getWorkflow(project);
+  // Archived projects can be browsed but not changed until unarchived.
+  const readOnly = isArchived(project);
   const projectTasks = useMemo(
     () => tasks.filter((t) => t.projectId === id),
     [tasks, id]
@@ -111,6 +148,19 @@ export default function ProjectDetail() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [deleteConfirmTask, setDeleteConfirmTask] = useState<Task | null>(null);
+  const [isWorkflowOpen, setIsWorkflowOpen] = useState(false);
+  const [parentTask, setParentTask] = useState<Task | null>(null);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [blockedBy, setBlockedByDraft] = useState<string[]>([]);
+  const [view, setView] = useState<"list" | "table" | "timeline" | "activity">(
+    "list"
+  );
+  const { layout, setLayout } = useTableLayout();
+  const statusChange = useStatusChange((taskId, status) => {
+    updateTask(taskId, { status });
+    toast({ title: "Status updated", action: undoAction() });
+  });
+  const handleStatusChange = statusChange.requestStatusChange;
 
   const {
     register,
@@ -124,34 +174,146 @@ export default function ProjectDetail() {
     defaultValues: {
       title: "",
       description: "",
-      status: "todo",
+      status: workflow[0].id,
       priority: "medium",
+      startDate: "",
       dueDate: format(new Date(), "yyyy-MM-dd"),
     },
   });
 
+  // The search is a task query over this project; the dropdowns join it as
+  // extra terms.
+  const queryScope = useMemo(() => (project ? [project] : []), [project]);
   const filteredTasks = useMemo(() => {
-    return projectTasks.filter((task) => {
-      const matchesSearch =
-        !search ||
-        task.title.toLowerCase().includes(search.toLowerCase()) ||
-        task.description.toLowerCase().includes(search.toLowerCase());
-      const matchesStatus =
-        statusFilter === "all" || task.status === statusFilter;
-      const matchesPriority =
-        priorityFilter === "all" || task.priority === priorityFilter;
-      return matchesSearch && matchesStatus && matchesPriority;
-    });
-  }, [projectTasks, search, statusFilter, priorityFilter]);
-
-  const stats = useMemo(
-    () => ({
-      total: projectTasks.length,
-      completed: projectTasks.filter((t) => t.status === "completed").length,
-      inProgress: projectTasks.filter((t) => t.status === "in-progress").length,
-      todo: projectTasks.filter((t) => t.status === "todo").length,
-    }),
-    [projectTasks]
+    const queries = [
+      search,
+      queryFromSelections({ status: statusFilter, priority: priorityFilter }),
+    ].map((query) => parseTaskQuery(query, queryScope));
+    return projectTasks.filter((task) =>
+      queries.every((query) => matchesQuery(task, query, { tasks, projects }))
+    );
+  }, [
+    projectTasks,
+    search,
+    statusFilter,
+    priorityFilter,
+    queryScope,
+    tasks,
+    projects,
+  ]);
+
+  // Subtasks sit right under their parent; one whose parent is filtered out
+  // is shown at the top level instead.
+  const displayTasks = useMemo(() => {
+    const visible = new Set(filteredTasks.map((t) => t.id));
+    const rows: { task: Task; depth: number }[] = [];
+    const visit = (task: Task, depth: number) => {
+      rows.push({ task, depth });
+      filteredTasks
+        .filter((t) => t.parentId === task.id)
+        .forEach((child) => visit(child, depth + 1));
+    };
+    filteredTasks
+      .filter((t) => !t.parentId || !visible.has(t.parentId))
+      .forEach((task) => visit(task, 0));
+    return rows;
+  }, [filteredTasks]);
+
+  const sortedTasks = useMemo(
+    () => sortTasks(filteredTasks, projects, layout.sort),
+    [filteredTasks, projects, layout.sort]
+  );
+
+  const statusCounts = useMemo(
+    () =>
+      workflow.map((status) => ({
+        ...status,
+        count: projectTasks.filter((t) => t.status === status.id).length,
+      })),
+    [workflow, projectTasks]
+  );
+
+  const openModal = useCallback(
+    (task?: Task, parent?: Task) => {
+      setParentTask(parent ?? null);
+      setChecklist(task?.checklist ?? []);
+      setBlockedByDraft(task?.blockedBy ?? []);
+      if (task) {
+        setEditingTask(task);
+        setValue("title", task.title);
+        setValue("description", task.description);
+        setValue("status", task.status);
+        setValue("priority", task.priority);
+        setValue("startDate", task.startDate ?? "");
+        setValue("dueDate", task.dueDate);
+      } else {
+        setEditingTask(null);
+        reset({
+          title: "",
+          description: "",
+          status: workflow[0].id,
+          priority: "medium",
+          startDate: "",
+          dueDate: format(new Date(), "yyyy-MM-dd"),
+        });
+      }
+      setIsModalOpen(true);
+    },
+    [reset, setValue, workflow]
+  );
+
+  // "New task in…" from the command palette lands here asking for the form.
+  const newTaskRequested =
+    (location.state as { newTask?: boolean } | null)?.newTask === true;
+  useEffect(() => {
+    // Wait for the project in case the workspace is still loading.
+    if (!newTaskRequested || !project) return;
+    navigate(location.pathname, { replace: true, state: null });
+    if (!readOnly) openModal();
+  }, [
+    newTaskRequested,
+    location.pathname,
+    navigate,
+    openModal,
+    project,
+    readOnly,
+  ]);
+
+  const isList = view === "list" || view === "table";
+  const listedIds =
+    view === "table"
+      ? sortedTasks.map((task) => task.id)
+      : isList
+        ? displayTasks.map(({ task }) => task.id)
+        : [];
+  const selection = useListSelection(listedIds);
+  // Archived projects are read-only, so there's nothing to bulk edit.
+  const taskSelection = useTaskSelection(readOnly ? [] : listedIds);
+  const bulkSelected = projectTasks.filter((t) =>
+    taskSelection.isSelected(t.id)
+  );
+  const selectedTask = projectTasks.find((t) => t.id === selection.selectedId);
+  const canEdit = !!project && !readOnly;
+
+  useShortcut("task-create", () => openModal(), canEdit);
+  useShortcut("task-next", () => selection.move(1), isList);
+  useShortcut("task-previous", () => selection.move(-1), isList);
+  useShortcut(
+    "task-open",
+    () => selectedTask && navigate(`/projects/${id}/tasks/${selectedTask.id}`),
+    !!selectedTask
+  );
+  useShortcut(
+    "task-edit",
+    () => selectedTask && openModal(selectedTask),
+    canEdit && !!selectedTask
+  );
+  useShortcut(
+    "task-toggle",
+    () =>
+      selectedTask &&
+      handleStatusChange(selectedTask, getToggleStatus(project, selectedTask)),
+    canEdit && !!selectedTask
   );
 
   if (!project) {
@@ -170,33 +332,33 @@ export default function ProjectDetail() {
     );
   }
 
-  const openModal = (task?: Task) => {
-    if (task) {
-      setEditingTask(task);
-      setValue("title", task.title);
-      setValue("description", task.description);
-      setValue("status", task.status);
-      setValue("priority", task.priority);
-      setValue("dueDate", task.dueDate);
-    } else {
-      setEditingTask(null);
-      reset({
-        title: "",
-        description: "",
-        status: "todo",
-        priority: "medium",
-        dueDate: format(new Date(), "yyyy-MM-dd"),
-      });
-    }
-    setIsModalOpen(true);
-  };
+  const handleExport = () =>
+    downloadFile(
+      `${project.name}-tasks-${format(new Date(), "yyyy-MM-dd")}.csv`,
+      tasksToCsv(filteredTasks, projects),
+      "text/csv"
+    );
 
   const onSubmit = (data: TaskForm) => {
     if (editingTask) {
-      updateTask(editingTask.id, data);
+      let valid = true;
+      // The blockers and the rest of the form save as one undoable edit.
+      batch("Edit task", () => {
+        valid = setBlockedBy(editingTask.id, blockedBy);
+        if (valid) updateTask(editingTask.id, { ...data, checklist });
+      });
+      if (!valid) {
+        toast({
+          title: "Circular dependency",
+          description: "A task can't end up waiting on itself.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Task updated",
         description: "Your task has been updated successfully.",
+        action: undoAction(),
       });
     } else {
       addTask({
@@ -204,12 +366,17 @@ export default function ProjectDetail() {
         description: data.description,
         status: data.status,
         priority: data.priority,
+        startDate: data.startDate,
         dueDate: data.dueDate,
         projectId: id!,
+        parentId: parentTask?.id,
+        checklist,
+        blockedBy,
       });
       toast({
-        title: "Task created",
+        title: parentTask ? "Subtask created" : "Task created",
         description: "Your new task has been added.",
+        action: undoAction(),
       });
     }
     setIsModalOpen(false);
@@ -220,17 +387,17 @@ export default function ProjectDetail() {
     if (deleteConfirmTask) {
       deleteTask(deleteConfirmTask.id);
       toast({
-        title: "Task deleted",
-        description: "The task has been removed.",
+        title: "Task moved to trash",
+        description: "It can be restored from Trash.",
+        action: undoAction(),
       });
       setDeleteConfirmTask(null);
     }
   };
 
-  const handleStatusChange = (taskId: string, status: Task["status"]) => {
-    updateTask(taskId, { status });
-    toast({ title: "Status updated" });
-  };
+  const deleteConfirmSubtasks = deleteConfirmTask
+    ? getDescendantIds(tasks, deleteConfirmTask.id).length
+    : 0;
 
   return (
     <motion.div
@@ -270,11 +437,50 @@ export default function ProjectDetail() {
               )}
             </div>
           </div>
-          <Button variant="default" onClick={() => openModal()}>
-            <Plus className="h-5 w-5" />
-            Add Task
-          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              disabled={filteredTasks.length === 0}
+              onClick={handleExport}
+            >
+              <Download className="h-5 w-5" />
+              Export CSV
+            </Button>
+            {readOnly ? (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  unarchiveProject(project.id);
+                  toast({ title: "Project unarchived", action: undoAction() });
+                }}
+              >
+                <ArchiveRestore className="h-5 w-5" />
+                Unarchive
+              </Button>
+            ) : (
+              <>
+                <TaskCsvImport defaultProjectId={project.id} />
+                <Button
+                  variant="outline"
+                  onClick={() => setIsWorkflowOpen(true)}
+                >
+                  <Workflow className="h-5 w-5" />
+                  Workflow
+                </Button>
+                <Button variant="default" onClick={() => openModal()}>
+                  <Plus className="h-5 w-5" />
+                  Add Task
+                </Button>
+              </>
+            )}
+          </div>
         </div>
+        {readOnly && (
+          <p className="mt-4 rounded-lg border border-border bg-secondary/50 px-4 py-3 text-sm text-muted-foreground">
+            This project is archived. Its tasks are read-only until you
+            unarchive it.
+          </p>
+        )}
       </motion.div>
 
       {/* Stats */}
@@ -284,56 +490,47 @@ export default function ProjectDetail() {
       >
         <Card>
           <CardContent className="p-4 text-center">
-            <p className="text-2xl font-bold text-foreground">{stats.total}</p>
-            <p className="text-sm text-muted-foreground">Total Tasks</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4 text-center">
-            <p className="text-2xl font-bold text-muted-foreground">
-              {stats.todo}
+            <p className="text-2xl font-bold text-foreground">
+              {projectTasks.length}
             </p>
-            <p className="text-sm text-muted-foreground">To Do</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4 text-center">
-            <p className="text-2xl font-bold text-accent">{stats.inProgress}</p>
-            <p className="text-sm text-muted-foreground">In Progress</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4 text-center">
-            <p className="text-2xl font-bold text-success">{stats.completed}</p>
-            <p className="text-sm text-muted-foreground">Completed</p>
+            <p className="text-sm text-muted-foreground">Total Tasks</p>
           </CardContent>
         </Card>
+        {statusCounts.map((status) => (
+          <Card key={status.id}>
+            <CardContent className="p-4 text-center">
+              <p className="text-2xl font-bold" style={{ color: status.color }}>
+                {status.count}
+              </p>
+              <p className="text-sm text-muted-foreground">{status.name}</p>
+            </CardContent>
+          </Card>
+        ))}
       </motion.div>
 
       {/* Filters */}
       <motion.div
         variants={itemVariants}
-        className="flex flex-col sm:flex-row gap-4"
+        className="flex flex-col sm:flex-row sm:items-start gap-4"
       >
-        <div className="relative flex-1 max-w-md">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search tasks..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-        <div className="flex gap-2">
+        <TaskQueryInput
+          value={search}
+          onChange={setSearch}
+          projects={queryScope}
+          className="flex-1 max-w-md"
+        />
+        <div className="flex flex-wrap gap-2">
           <Select value={statusFilter} onValueChange={setStatusFilter}>
             <SelectTrigger className="w-[140px]">
               <SelectValue placeholder="Status" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="todo">To Do</SelectItem>
-              <SelectItem value="in-progress">In Progress</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
+              {workflow.map((status) => (
+                <SelectItem key={status.id} value={status.id}>
+                  {status.name}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
           <Select value={priorityFilter} onValueChange={setPriorityFilter}>
@@ -347,113 +544,214 @@ export default function ProjectDetail() {
               <SelectItem value="high">High</SelectItem>
             </SelectContent>
           </Select>
+          <Tabs
+            value={view}
+            onValueChange={(value) => setView(value as typeof view)}
+          >
+            <TabsList>
+              <TabsTrigger value="list">List</TabsTrigger>
+              <TabsTrigger value="table">Table</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              <TabsTrigger value="activity">Activity</TabsTrigger>
+            </TabsList>
+          </Tabs>
         </div>
       </motion.div>
 
       {/* Tasks List */}
-      {filteredTasks.length > 0 ? (
+      {view === "activity" ? (
+        <motion.div variants={itemVariants}>
+          <Card>
+            <CardContent className="p-6">
+              <ActivityList
+                entries={activity.filter((e) => e.projectId === project.id)}
+              />
+            </CardContent>
+          </Card>
+        </motion.div>
+      ) : view === "timeline" && filteredTasks.length > 0 ? (
+        <motion.div variants={itemVariants}>
+          <TaskTimeline
+            tasks={filteredTasks}
+            readOnly={readOnly}
+            linkTo={(task) =>
+              task.projectId === project.id
+                ? `/projects/${project.id}/tasks/${task.id}`
+                : `/tasks/${task.id}`
+            }
+          />
+        </motion.div>
+      ) : view === "table" && filteredTasks.length > 0 ? (
+        <motion.div variants={itemVariants}>
+          <TaskTable
+            tasks={sortedTasks}
+            layout={layout}
+            onLayoutChange={setLayout}
+            onStatusChange={handleStatusChange}
+            linkTo={(task) => `/projects/${project.id}/tasks/${task.id}`}
+            omit={["project"]}
+            highlightedId={selection.selectedId}
+            selection={readOnly ? undefined : taskSelection}
+          />
+        </motion.div>
+      ) : filteredTasks.length > 0 ? (
         <motion.div variants={containerVariants} className="space-y-3">
           <AnimatePresence>
-            {filteredTasks.map((task) => (
-              <motion.div
-                key={task.id}
-                variants={itemVariants}
-                layout
-                exit={{ opacity: 0, x: -20 }}
-              >
-                <Card className="group hover:shadow-custom-md transition-all">
-                  <CardContent className="p-4">
-                    <div className="flex items-start gap-4">
-                      <button
-                        onClick={() =>
-                          handleStatusChange(
-                            task.id,
-                            task.status === "completed" ? "todo" : "completed"
-                          )
-                        }
-                        className={`mt-1 h-5 w-5 rounded-full border-2 shrink-0 transition-all ${
-                          task.status === "completed"
-                            ? "bg-success border-success"
-                            : "border-muted-foreground hover:border-primary"
-                        }`}
-                      >
-                        {task.status === "completed" && (
-                          <CheckSquare className="h-4 w-4 text-success-foreground p-0.5" />
+            {displayTasks.map(({ task, depth }) => {
+              const status = findStatus(project, task.status);
+              const isDone = status?.isDone ?? false;
+              const parent =
+                depth === 0 && task.parentId
+                  ? tasks.find((t) => t.id === task.parentId)
+                  : undefined;
+
+              return (
+                <motion.div
+                  key={task.id}
+                  variants={itemVariants}
+                  layout
+                  exit={{ opacity: 0, x: -20 }}
+                  style={{ marginLeft: `${depth * 2}rem` }}
+                  data-selection-id={task.id}
+                >
+                  <Card
+                    className={`group hover:shadow-custom-md transition-all ${
+                      selection.selectedId === task.id
+                        ? "ring-2 ring-primary"
+                        : ""
+                    }`}
+                  >
+                    <CardContent className="p-4">
+                      <div className="flex items-start gap-4">
+                        {!readOnly && (
+                          <TaskSelectCheckbox
+                            title={task.title}
+                            checked={taskSelection.isSelected(task.id)}
+                            selecting={bulkSelected.length > 0}
+                            onToggle={(range) =>
+                              taskSelection.toggle(task.id, range)
+                            }
+                            className="mt-1.5 -mr-2"
+                          />
                         )}
-                      </button>
-
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between gap-2">
-                          <div className="min-w-0">
-                            <h3
-                              className={`font-medium ${
-                                task.status === "completed"
-                                  ? "line-through text-muted-foreground"
-                                  : "text-foreground"
-                              }`}
-                            >
-                              {task.title}
-                            </h3>
-                            {task.description && (
-                              <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
-                                {task.description}
-                              </p>
+                        <button
+                          onClick={() =>
+                            handleStatusChange(
+                              task,
+                              getToggleStatus(project, task)
+                            )
+                          }
+                          disabled={readOnly}
+                          className={`mt-1 h-5 w-5 rounded-full border-2 shrink-0 transition-all disabled:cursor-not-allowed ${
+                            isDone
+                              ? "bg-success border-success"
+                              : "border-muted-foreground hover:border-primary"
+                          }`}
+                        >
+                          {isDone && (
+                            <CheckSquare className="h-4 w-4 text-success-foreground p-0.5" />
+                          )}
+                        </button>
+
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="min-w-0">
+                              {parent && (
+                                <p className="text-xs text-muted-foreground mb-0.5 flex items-center gap-1">
+                                  <CornerDownRight className="h-3 w-3" />
+                                  Subtask of {parent.title}
+                                </p>
+                              )}
+                              <h3
+                                className={`font-medium ${
+                                  isDone
+                                    ? "line-through text-muted-foreground"
+                                    : "text-foreground"
+                                }`}
+                              >
+                                <Link
+                                  to={`/projects/${project.id}/tasks/${task.id}`}
+                                  className="hover:underline"
+                                >
+                                  {task.title}
+                                </Link>
+                              </h3>
+                              {task.description && (
+                                <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                                  {task.description}
+                                </p>
+                              )}
+                            </div>
+                            {!readOnly && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                                  >
+                                    <MoreHorizontal className="h-4 w-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem
+                                    onClick={() => openModal(task)}
+                                  >
+                                    <Pencil className="h-4 w-4 mr-2" />
+                                    Edit
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => openModal(undefined, task)}
+                                  >
+                                    <ListTree className="h-4 w-4 mr-2" />
+                                    Add Subtask
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => setDeleteConfirmTask(task)}
+                                    className="text-destructive focus:text-destructive"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
                             )}
                           </div>
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
-                              >
-                                <MoreHorizontal className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => openModal(task)}>
-                                <Pencil className="h-4 w-4 mr-2" />
-                                Edit
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => setDeleteConfirmTask(task)}
-                                className="text-destructive focus:text-destructive"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </div>
 
-                        <div className="flex flex-wrap items-center gap-2 mt-3">
-                          <Badge
-                            className={statusColors[task.status]}
-                            variant="secondary"
-                          >
-                            {task.status === "todo" && "To Do"}
-                            {task.status === "in-progress" && "In Progress"}
-                            {task.status === "completed" && "Completed"}
-                          </Badge>
-                          <Badge
-                            className={priorityColors[task.priority]}
-                            variant="secondary"
-                          >
-                            <Flag className="h-3 w-3 mr-1" />
-                            {task.priority.charAt(0).toUpperCase() +
-                              task.priority.slice(1)}
-                          </Badge>
-                          <span className="text-xs text-muted-foreground flex items-center gap-1">
-                            <Calendar className="h-3 w-3" />
-                            {format(new Date(task.dueDate), "MMM d, yyyy")}
-                          </span>
+                          <div className="flex flex-wrap items-center gap-2 mt-3">
+                            {status && (
+                              <Badge
+                                variant="secondary"
+                                style={{
+                                  backgroundColor: status.color + "20",
+                                  color: status.color,
+                                }}
+                              >
+                                {status.name}
+                              </Badge>
+                            )}
+                            <Badge
+                              className={priorityColors[task.priority]}
+                              variant="secondary"
+                            >
+                              <Flag className="h-3 w-3 mr-1" />
+                              {task.priority.charAt(0).toUpperCase() +
+                                task.priority.slice(1)}
+                            </Badge>
+                            <span className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {format(new Date(task.dueDate), "MMM d, yyyy")}
+                            </span>
+                            <TaskProgress task={task} className="text-xs" />
+                            <BlockedBadge task={task} />
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              );
+            })}
           </AnimatePresence>
         </motion.div>
       ) : (
@@ -467,14 +765,19 @@ export default function ProjectDetail() {
           <p className="text-muted-foreground mb-6">
             {search || statusFilter !== "all" || priorityFilter !== "all"
               ? "Try adjusting your filters"
-              : "Add your first task to get started"}
+              : readOnly
+                ? "Unarchive the project to add tasks"
+                : "Add your first task to get started"}
           </p>
-          {!search && statusFilter === "all" && priorityFilter === "all" && (
-            <Button variant="gradient" onClick={() => openModal()}>
-              <Plus className="h-5 w-5" />
-              Add Task
-            </Button>
-          )}
+          {!readOnly &&
+            !search &&
+            statusFilter === "all" &&
+            priorityFilter === "all" && (
+              <Button variant="gradient" onClick={() => openModal()}>
+                <Plus className="h-5 w-5" />
+                Add Task
+              </Button>
+            )}
         </motion.div>
       )}
 
@@ -483,8 +786,15 @@ export default function ProjectDetail() {
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle>
-              {editingTask ? "Edit Task" : "Add New Task"}
+              {editingTask
+                ? "Edit Task"
+                : parentTask
+                  ? "Add Subtask"
+                  : "Add New Task"}
             </DialogTitle>
+            {parentTask && (
+              <DialogDescription>Under "{parentTask.title}"</DialogDescription>
+            )}
           </DialogHeader>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
             <div className="space-y-2">
@@ -529,9 +839,11 @@ export default function ProjectDetail() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="todo">To Do</SelectItem>
-                    <SelectItem value="in-progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
+                    {workflow.map((status) => (
+                      <SelectItem key={status.id} value={status.id}>
+                        {status.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -556,14 +868,40 @@ export default function ProjectDetail() {
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDate">Start Date</Label>
+                <Input id="startDate" type="date" {...register("startDate")} />
+                {errors.startDate && (
+                  <p className="text-sm text-destructive">
+                    {errors.startDate.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dueDate">Due Date</Label>
+                <Input id="dueDate" type="date" {...register("dueDate")} />
+                {errors.dueDate && (
+                  <p className="text-sm text-destructive">
+                    {errors.dueDate.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
             <div className="space-y-2">
-              <Label htmlFor="dueDate">Due Date</Label>
-              <Input id="dueDate" type="date" {...register("dueDate")} />
-              {errors.dueDate && (
-                <p className="text-sm text-destructive">
-                  {errors.dueDate.message}
-                </p>
-              )}
+              <Label>Checklist</Label>
+              <ChecklistEditor items={checklist} onChange={setChecklist} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Blocked By</Label>
+              <DependencyPicker
+                taskId={editingTask?.id}
+                value={blockedBy}
+                onChange={setBlockedByDraft}
+              />
             </div>
 
             <div className="flex gap-3 pt-2">
@@ -583,6 +921,22 @@ export default function ProjectDetail() {
         </DialogContent>
       </Dialog>
 
+      <WorkflowDialog
+        project={project}
+        open={isWorkflowOpen}
+        onOpenChange={setIsWorkflowOpen}
+      />
+
+      <Outlet />
+
+      <BulkActionBar selected={bulkSelected} onClear={taskSelection.clear} />
+
+      <StatusChangeDialog
+        pending={statusChange.pending}
+        onConfirm={statusChange.confirm}
+        onCancel={statusChange.cancel}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog
         open={!!deleteConfirmTask}
@@ -592,8 +946,11 @@ export default function ProjectDetail() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Task?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete "{deleteConfirmTask?.title}". This
-              action cannot be undone.
+              "{deleteConfirmTask?.title}"
+              {deleteConfirmSubtasks > 0 &&
+                ` and its ${deleteConfirmSubtasks} subtask${deleteConfirmSubtasks === 1 ? "" : "s"}`}{" "}
+              will be moved to the trash, where it can be restored until it's
+              purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -7,16 +7,19 @@ import {
   MoreHorizontal,
   Pencil,
   Trash2,
+  Archive,
+  ArchiveRestore,
 } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
   DialogContent,
@@ -40,33 +43,18 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
 import type { Project } from "@/store/useStore";
 import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { useListSelection } from "@/hooks/use-list-selection";
+import { useShortcut } from "@/hooks/use-shortcuts";
 import { format } from "date-fns";
-
-const projectSchema = z.object({
-  name: z
-    .string()
-    .min(1, "Project name is required")
-    .max(50, "Name must be less than 50 characters"),
-  description: z
-    .string()
-    .max(200, "Description must be less than 200 characters"),
-  color: z.string(),
-});
-
-type ProjectForm = z.infer<typeof projectSchema>;
-
-const colors = [
-  "#6366f1",
-  "#8b5cf6",
-  "#ec4899",
-  "#ef4444",
-  "#f97316",
-  "#eab308",
-  "#22c55e",
-  "#14b8a6",
-];
+import { isTaskDone } from "@/lib/workflow";
+import { isArchived } from "@/lib/archive";
+import { BoardImport } from "@/components/projects/BoardImport";
+import { projectColors, projectSchema } from "@/lib/forms";
+import type { ProjectForm } from "@/lib/forms";
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -82,9 +70,17 @@ const itemVariants = {
 };
 
 export default function Projects() {
-  const { projects, tasks, addProject, updateProject, deleteProject } =
-    useStore();
+  const {
+    addProject,
+    updateProject,
+    deleteProject,
+    archiveProject,
+    unarchiveProject,
+  } = useStore();
+  const { projects, tasks } = useWorkspace();
+  const navigate = useNavigate();
   const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [deleteConfirmProject, setDeleteConfirmProject] =
@@ -102,21 +98,21 @@ export default function Projects() {
     defaultValues: {
       name: "",
       description: "",
-      color: colors[0],
+      color: projectColors[0],
     },
   });
 
   const selectedColor = watch("color");
 
   const filteredProjects = useMemo(() => {
-    if (!search) return projects;
     const searchLower = search.toLowerCase();
     return projects.filter(
       (p) =>
-        p.name.toLowerCase().includes(searchLower) ||
-        p.description.toLowerCase().includes(searchLower)
+        isArchived(p) === showArchived &&
+        (p.name.toLowerCase().includes(searchLower) ||
+          p.description.toLowerCase().includes(searchLower))
     );
-  }, [projects, search]);
+  }, [projects, search, showArchived]);
 
   const openModal = (project?: Project) => {
     if (project) {
@@ -126,17 +122,38 @@ export default function Projects() {
       setValue("color", project.color);
     } else {
       setEditingProject(null);
-      reset({ name: "", description: "", color: colors[0] });
+      reset({ name: "", description: "", color: projectColors[0] });
     }
     setIsModalOpen(true);
   };
 
+  const selection = useListSelection(filteredProjects.map((p) => p.id));
+  const selectedProject = filteredProjects.find(
+    (p) => p.id === selection.selectedId
+  );
+
+  useShortcut("project-create", () => openModal());
+  useShortcut("project-next", () => selection.move(1));
+  useShortcut("project-previous", () => selection.move(-1));
+  useShortcut(
+    "project-open",
+    () => selectedProject && navigate(`/projects/${selectedProject.id}`),
+    !!selectedProject
+  );
+  // Archived projects are read-only, so only active ones can be edited.
+  useShortcut(
+    "project-edit",
+    () => selectedProject && openModal(selectedProject),
+    !!selectedProject && !isArchived(selectedProject)
+  );
+
   const onSubmit = (data: ProjectForm) => {
     if (editingProject) {
       updateProject(editingProject.id, data);
       toast({
         title: "Project updated",
         description: "Your project has been updated successfully.",
+        action: undoAction(),
       });
     } else {
       addProject({
@@ -147,6 +164,7 @@ export default function Projects() {
       toast({
         title: "Project created",
         description: "Your new project has been created.",
+        action: undoAction(),
       });
     }
     setIsModalOpen(false);
@@ -157,13 +175,32 @@ export default function Projects() {
     if (deleteConfirmProject) {
       deleteProject(deleteConfirmProject.id);
       toast({
-        title: "Project deleted",
-        description: "The project and its tasks have been deleted.",
+        title: "Project moved to trash",
+        description: "The project and its tasks can be restored from Trash.",
+        action: undoAction(),
       });
       setDeleteConfirmProject(null);
     }
   };
 
+  const handleArchive = (project: Project) => {
+    if (isArchived(project)) {
+      unarchiveProject(project.id);
+      toast({
+        title: "Project unarchived",
+        description: `"${project.name}" is active again.`,
+        action: undoAction(),
+      });
+    } else {
+      archiveProject(project.id);
+      toast({
+        title: "Project archived",
+        description: `Find "${project.name}" under Archived.`,
+        action: undoAction(),
+      });
+    }
+  };
+
   return (
     <motion.div
       variants={containerVariants}
@@ -182,21 +219,38 @@ export default function Projects() {
             Manage and organize your projects
           </p>
         </div>
-        <Button variant="gradient" onClick={() => openModal()}>
-          <Plus className="h-5 w-5" />
-          New Project
-        </Button>
+        <div className="flex gap-2">
+          <BoardImport />
+          <Button variant="gradient" onClick={() => openModal()}>
+            <Plus className="h-5 w-5" />
+            New Project
+          </Button>
+        </div>
       </motion.div>
 
       {/* Search */}
-      <motion.div variants={itemVariants} className="relative max-w-md">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search projects..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          className="pl-10"
-        />
+      <motion.div
+        variants={itemVariants}
+        className="flex flex-col sm:flex-row gap-4"
+      >
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search projects..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Tabs
+          value={showArchived ? "archived" : "active"}
+          onValueChange={(value) => setShowArchived(value === "archived")}
+        >
+          <TabsList>
+            <TabsTrigger value="active">Active</TabsTrigger>
+            <TabsTrigger value="archived">Archived</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </motion.div>
 
       {/* Projects Grid */}
@@ -210,8 +264,8 @@ export default function Projects() {
               const projectTasks = tasks.filter(
                 (t) => t.projectId === project.id
               );
-              const completedCount = projectTasks.filter(
-                (t) => t.status === "completed"
+              const completedCount = projectTasks.filter((t) =>
+                isTaskDone(t, projects)
               ).length;
               const progress =
                 projectTasks.length > 0
@@ -224,8 +278,15 @@ export default function Projects() {
                   variants={itemVariants}
                   layout
                   exit={{ opacity: 0, scale: 0.9 }}
+                  data-selection-id={project.id}
                 >
-                  <Card className="group h-full hover:shadow-custom-lg transition-all">
+                  <Card
+                    className={`group h-full hover:shadow-custom-lg transition-all ${
+                      selection.selectedId === project.id
+                        ? "ring-2 ring-primary"
+                        : ""
+                    }`}
+                  >
                     <CardContent className="p-5">
                       <div className="flex items-start justify-between mb-4">
                         <Link
@@ -245,6 +306,11 @@ export default function Projects() {
                             <h3 className="font-semibold text-foreground truncate">
                               {project.name}
                             </h3>
+                            {showArchived && (
+                              <Badge variant="secondary" className="mt-0.5">
+                                Archived
+                              </Badge>
+                            )}
                             <p className="text-xs text-muted-foreground">
                               Created{" "}
                               {format(
@@ -265,11 +331,23 @@ export default function Projects() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
+                            {!showArchived && (
+                              <DropdownMenuItem
+                                onClick={() => openModal(project)}
+                              >
+                                <Pencil className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem
-                              onClick={() => openModal(project)}
+                              onClick={() => handleArchive(project)}
                             >
-                              <Pencil className="h-4 w-4 mr-2" />
-                              Edit
+                              {showArchived ? (
+                                <ArchiveRestore className="h-4 w-4 mr-2" />
+                              ) : (
+                                <Archive className="h-4 w-4 mr-2" />
+                              )}
+                              {showArchived ? "Unarchive" : "Archive"}
                             </DropdownMenuItem>
                             <DropdownMenuItem
                               onClick={() => setDeleteConfirmProject(project)}
@@ -318,14 +396,20 @@ export default function Projects() {
         <motion.div variants={itemVariants} className="text-center py-16">
           <FolderKanban className="h-16 w-16 text-muted-foreground/30 mx-auto mb-4" />
           <h3 className="text-lg font-semibold text-foreground mb-2">
-            {search ? "No projects found" : "No projects yet"}
+            {search
+              ? "No projects found"
+              : showArchived
+                ? "No archived projects"
+                : "No projects yet"}
           </h3>
           <p className="text-muted-foreground mb-6">
             {search
               ? "Try adjusting your search terms"
-              : "Create your first project to get started"}
+              : showArchived
+                ? "Archive a finished project to tuck it away here"
+                : "Create your first project to get started"}
           </p>
-          {!search && (
+          {!search && !showArchived && (
             <Button variant="gradient" onClick={() => openModal()}>
               <Plus className="h-5 w-5" />
               Create Project
@@ -375,7 +459,7 @@ export default function Projects() {
             <div className="space-y-2">
               <Label>Color</Label>
               <div className="flex gap-2 flex-wrap">
-                {colors.map((color) => (
+                {projectColors.map((color) => (
                   <button
                     key={color}
                     type="button"
@@ -417,8 +501,8 @@ export default function Projects() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Project?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete "{deleteConfirmProject?.name}" and
-              all its tasks. This action cannot be undone.
+              "{deleteConfirmProject?.name}" and all its tasks will be moved to
+              the trash, where they can be restored until they're purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
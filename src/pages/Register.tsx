@@ -38,7 +38,7 @@ export default function Register() {
   });
 
   const onSubmit = async (data: RegisterForm) => {
-    const success = registerUser(data.name, data.email, data.password);
+    const success = await registerUser(data.name, data.email, data.password);
     if (success) {
       toast({ title: 'Account created!', description: 'Welcome to ProManage. Let\'s get started!' });
       navigate('/dashboard');
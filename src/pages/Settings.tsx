@@ -3,7 +3,7 @@ import { motion } from "framer-motion";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { User, Moon, Sun, Shield, Bell } from "lucide-react";
+import { User, Moon, Sun, Shield, Bell, Trash2 } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -16,8 +16,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useStore } from "@/store/useStore";
 import { toast } from "@/hooks/use-toast";
+import { TRASH_RETENTION_OPTIONS } from "@/lib/trash";
+import { BackupRestore } from "@/components/settings/BackupRestore";
+import { ShortcutSettings } from "@/components/settings/ShortcutSettings";
 
 const profileSchema = z.object({
   name: z
@@ -43,7 +53,8 @@ const itemVariants = {
 };
 
 export default function Settings() {
-  const { user, theme, toggleTheme } = useStore();
+  const { user, theme, toggleTheme, trashRetentionDays, setTrashRetention } =
+    useStore();
   const [notifications, setNotifications] = useState(true);
 
   const {
@@ -181,6 +192,11 @@ export default function Settings() {
         </Card>
       </motion.div>
 
+      {/* Keyboard Shortcuts */}
+      <motion.div variants={itemVariants}>
+        <ShortcutSettings />
+      </motion.div>
+
       {/* Notification Settings */}
       <motion.div variants={itemVariants}>
         <Card>
@@ -210,6 +226,51 @@ export default function Settings() {
         </Card>
       </motion.div>
 
+      {/* Trash Settings */}
+      <motion.div variants={itemVariants}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5 text-destructive" />
+              Trash
+            </CardTitle>
+            <CardDescription>
+              Choose how long deleted projects and tasks can be restored
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base">Keep deleted items</Label>
+                <p className="text-sm text-muted-foreground">
+                  Older items are permanently deleted automatically
+                </p>
+              </div>
+              <Select
+                value={String(trashRetentionDays)}
+                onValueChange={(value) => setTrashRetention(Number(value))}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRASH_RETENTION_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 0 ? "Until emptied" : `For ${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {/* Backup & Restore */}
+      <motion.div variants={itemVariants}>
+        <BackupRestore />
+      </motion.div>
+
       {/* Privacy Settings */}
       <motion.div variants={itemVariants}>
         <Card>
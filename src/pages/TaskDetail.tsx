@@ -0,0 +1,108 @@
+import { useParams, Link, useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TaskDetailView } from "@/components/tasks/TaskDetailView";
+import { useWorkspace } from "@/hooks/use-workspace";
+
+export default function TaskDetail() {
+  const { taskId } = useParams<{ taskId: string }>();
+  const { tasks } = useWorkspace();
+
+  const task = tasks.find((t) => t.id === taskId);
+
+  if (!task) {
+    return (
+      <div className="text-center py-16">
+        <h2 className="text-xl font-semibold text-foreground mb-4">
+          Task not found
+        </h2>
+        <Link to="/tasks">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tasks
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-3xl space-y-6"
+    >
+      <Link
+        to="/tasks"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to Tasks
+      </Link>
+      <Card>
+        <CardContent className="p-6">
+          <TaskDetailView key={task.id} task={task} />
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+/**
+ * `/projects/:id/tasks/:taskId` — the same view over the project page, which
+ * stays mounted underneath. Closing returns to the project.
+ */
+export function TaskOverlay() {
+  const { id, taskId } = useParams<{ id: string; taskId: string }>();
+  const navigate = useNavigate();
+  const { tasks } = useWorkspace();
+
+  const task = tasks.find((t) => t.id === taskId && t.projectId === id);
+  const close = () => navigate(`/projects/${id}`);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        {task ? (
+          <>
+            <DialogHeader className="sr-only">
+              <DialogTitle>{task.title}</DialogTitle>
+              <DialogDescription>Task details</DialogDescription>
+            </DialogHeader>
+            <TaskDetailView
+              key={task.id}
+              task={task}
+              linkTo={(related) =>
+                related.projectId === id
+                  ? `/projects/${id}/tasks/${related.id}`
+                  : `/tasks/${related.id}`
+              }
+            />
+          </>
+        ) : (
+          <div className="text-center py-8">
+            <DialogHeader className="items-center sm:text-center mb-4">
+              <DialogTitle>Task not found</DialogTitle>
+              <DialogDescription>
+                It may have been deleted or moved to another project.
+              </DialogDescription>
+            </DialogHeader>
+            <Button variant="outline" onClick={close}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Project
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
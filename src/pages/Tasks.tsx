@@ -1,9 +1,22 @@
 import { useState, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { format, isBefore } from "date-fns";
 import {
-  Search,
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCorners,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import type { DragEndEvent } from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import {
   CheckSquare,
   Calendar,
   Flag,
@@ -11,18 +24,14 @@ import {
   MoreHorizontal,
   Trash2,
   AlertCircle,
+  Download,
+  Kanban,
+  Table2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -40,8 +49,39 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useStore } from "@/store/useStore";
+import { useWorkspace } from "@/hooks/use-workspace";
 import type { Task } from "@/store/useStore";
 import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { byOrder, rankBetween } from "@/lib/ordering";
+import {
+  findStatus,
+  getToggleStatus,
+  getWorkflow,
+  isTaskDone,
+  mergeWorkflows,
+} from "@/lib/workflow";
+import { isArchived } from "@/lib/archive";
+import { DroppableColumn, SortableItem } from "@/components/tasks/sortable";
+import { TaskProgress } from "@/components/tasks/TaskProgress";
+import { BlockedBadge } from "@/components/tasks/BlockedBadge";
+import { StatusChangeDialog } from "@/components/tasks/StatusChangeDialog";
+import { getDescendantIds } from "@/lib/subtasks";
+import { TaskFilterBar } from "@/components/tasks/TaskFilterBar";
+import { useStatusChange } from "@/hooks/use-status-change";
+import { useTaskFilters } from "@/hooks/use-task-filters";
+import { useListSelection } from "@/hooks/use-list-selection";
+import { useShortcut } from "@/hooks/use-shortcuts";
+import { TaskCsvImport } from "@/components/tasks/TaskCsvImport";
+import { BulkActionBar } from "@/components/tasks/BulkActionBar";
+import { TaskSelectCheckbox } from "@/components/tasks/TaskSelectCheckbox";
+import { useTaskSelection } from "@/hooks/use-task-selection";
+import { TaskTable } from "@/components/tasks/TaskTable";
+import { SaveViewDialog } from "@/components/tasks/SaveViewDialog";
+import { useTableLayout } from "@/hooks/use-table-layout";
+import { sortTasks } from "@/lib/taskTable";
+import { downloadFile } from "@/lib/download";
+import { tasksToCsv } from "@/lib/taskCsv";
 
 const priorityColors = {
   low: "bg-muted text-muted-foreground",
@@ -63,63 +103,178 @@ const itemVariants = {
 };
 
 export default function Tasks() {
-  const { projects, tasks, updateTask, deleteTask } = useStore();
+  const { updateTask, reorderTask, deleteTask } = useStore();
+  const { projects, tasks } = useWorkspace({ hideArchived: true });
+  const navigate = useNavigate();
 
-  const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [priorityFilter, setPriorityFilter] = useState<string>("all");
-  const [projectFilter, setProjectFilter] = useState<string>("all");
+  const { filters, setFilter, filteredTasks, isFiltered } = useTaskFilters();
   const [deleteConfirmTask, setDeleteConfirmTask] = useState<Task | null>(null);
+  const [view, setView] = useState<"board" | "table">("board");
+  const { layout, setLayout } = useTableLayout();
 
-  const filteredTasks = useMemo(() => {
-    return tasks.filter((task) => {
-      const matchesSearch =
-        !search ||
-        task.title.toLowerCase().includes(search.toLowerCase()) ||
-        task.description.toLowerCase().includes(search.toLowerCase());
-      const matchesStatus =
-        statusFilter === "all" || task.status === statusFilter;
-      const matchesPriority =
-        priorityFilter === "all" || task.priority === priorityFilter;
-      const matchesProject =
-        projectFilter === "all" || task.projectId === projectFilter;
-      return (
-        matchesSearch && matchesStatus && matchesPriority && matchesProject
-      );
-    });
-  }, [tasks, search, statusFilter, priorityFilter, projectFilter]);
+  // With one project selected the board follows its workflow; otherwise the
+  // columns are every project's statuses merged together.
+  const columns = useMemo(
+    () =>
+      mergeWorkflows(
+        filters.project === "all"
+          ? projects
+          : projects.filter((p) => p.id === filters.project)
+      ),
+    [projects, filters.project]
+  );
 
   const groupedByStatus = useMemo(() => {
-    const groups = {
-      todo: [] as Task[],
-      "in-progress": [] as Task[],
-      completed: [] as Task[],
-    };
-    filteredTasks.forEach((task) => {
-      groups[task.status].push(task);
+    const groups: Record<string, Task[]> = Object.fromEntries(
+      columns.map((status) => [status.id, [] as Task[]])
+    );
+    [...filteredTasks].sort(byOrder).forEach((task) => {
+      groups[task.status]?.push(task);
     });
     return groups;
-  }, [filteredTasks]);
+  }, [columns, filteredTasks]);
+
+  const sortedTasks = useMemo(
+    () => sortTasks(filteredTasks, projects, layout.sort),
+    [filteredTasks, projects, layout.sort]
+  );
+
+  const sensors = useSensors(
+    // A small threshold keeps clicks on the card menu from starting a drag.
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const task = filteredTasks.find((t) => t.id === active.id);
+    if (!task || !over || active.id === over.id) return;
+
+    // Dropping on a card places the task at that card's position; dropping
+    // on the column itself (e.g. an empty one) appends it.
+    const overTask = filteredTasks.find((t) => t.id === over.id);
+    const status = overTask ? overTask.status : String(over.id);
+    const project = getProjectById(task.projectId);
+    if (!findStatus(project, status)) {
+      toast({
+        title: "Can't move task",
+        description: `${project?.name ?? "This project"} has no such status in its workflow.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const column = groupedByStatus[status].filter((t) => t.id !== task.id);
 
-  const handleStatusChange = (taskId: string, status: Task["status"]) => {
-    updateTask(taskId, { status });
-    toast({ title: "Status updated" });
+    let index = column.length;
+    if (overTask) {
+      index = column.findIndex((t) => t.id === overTask.id);
+      const movingDown =
+        task.status === status &&
+        groupedByStatus[status].indexOf(task) <
+          groupedByStatus[status].indexOf(overTask);
+      if (movingDown) index += 1;
+    }
+
+    const order = rankBetween(column[index - 1]?.order, column[index]?.order);
+    if (status === task.status) {
+      reorderTask(task.id, status, order);
+    } else {
+      handleStatusChange(task, status, order);
+    }
   };
 
+  const applyStatusChange = (
+    taskId: string,
+    status: string,
+    order?: number
+  ) => {
+    if (order === undefined) {
+      updateTask(taskId, { status });
+      toast({ title: "Status updated", action: undoAction() });
+    } else {
+      reorderTask(taskId, status, order);
+    }
+  };
+
+  const statusChange = useStatusChange(applyStatusChange);
+  const handleStatusChange = statusChange.requestStatusChange;
+
+  // Selections run down each column in turn, as the board reads.
+  const visibleIds =
+    view === "table"
+      ? sortedTasks.map((task) => task.id)
+      : columns.flatMap(({ id }) =>
+          groupedByStatus[id].map((task) => task.id)
+        );
+  const selection = useListSelection(visibleIds);
+  const taskSelection = useTaskSelection(visibleIds);
+  const bulkSelected = filteredTasks.filter((t) =>
+    taskSelection.isSelected(t.id)
+  );
+  const selectedTask = filteredTasks.find(
+    (t) => t.id === selection.selectedId
+  );
+  const selectedProject = projects.find(
+    (p) => p.id === selectedTask?.projectId
+  );
+  // New tasks go to the filtered project, or else the selected task's.
+  const createTarget = [filters.project, selectedTask?.projectId]
+    .map((projectId) => projects.find((p) => p.id === projectId))
+    .find((project) => project && !isArchived(project));
+
+  // The task page edits in place, so editing and opening are the same.
+  const openSelected = () =>
+    selectedTask && navigate(`/tasks/${selectedTask.id}`);
+
+  useShortcut(
+    "task-create",
+    () =>
+      createTarget &&
+      navigate(`/projects/${createTarget.id}`, { state: { newTask: true } }),
+    !!createTarget
+  );
+  useShortcut("task-next", () => selection.move(1));
+  useShortcut("task-previous", () => selection.move(-1));
+  useShortcut("task-open", openSelected, !!selectedTask);
+  useShortcut("task-edit", openSelected, !!selectedTask);
+  useShortcut(
+    "task-toggle",
+    () =>
+      selectedTask &&
+      handleStatusChange(
+        selectedTask,
+        getToggleStatus(selectedProject, selectedTask)
+      ),
+    !!selectedTask && !isArchived(selectedProject)
+  );
+
   const handleDelete = () => {
     if (deleteConfirmTask) {
       deleteTask(deleteConfirmTask.id);
       toast({
-        title: "Task deleted",
-        description: "The task has been removed.",
+        title: "Task moved to trash",
+        description: "It can be restored from Trash.",
+        action: undoAction(),
       });
       setDeleteConfirmTask(null);
     }
   };
 
+  const handleExport = () =>
+    downloadFile(
+      `tasks-${format(new Date(), "yyyy-MM-dd")}.csv`,
+      tasksToCsv(filteredTasks, projects),
+      "text/csv"
+    );
+
   const getProjectById = (projectId: string) =>
     projects.find((p) => p.id === projectId);
 
+  const deleteConfirmSubtasks = deleteConfirmTask
+    ? getDescendantIds(tasks, deleteConfirmTask.id).length
+    : 0;
+
   return (
     <motion.div
       variants={containerVariants}
@@ -128,271 +283,318 @@ export default function Tasks() {
       className="space-y-6"
     >
       {/* Header */}
-      <motion.div variants={itemVariants}>
-        <h1 className="text-3xl font-bold text-foreground backdrop-blur-lg">All Tasks</h1>
-        <p className="text-muted-foreground mt-1">
-          View and manage all tasks across your projects
-        </p>
-      </motion.div>
-
-      {/* Filters */}
       <motion.div
         variants={itemVariants}
-        className="flex flex-col lg:flex-row gap-4"
+        className="flex flex-col sm:flex-row sm:items-center justify-between gap-4"
       >
-        <div className="relative flex-1 max-w-md">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search tasks..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-10"
-          />
+        <div>
+          <h1 className="text-3xl font-bold text-foreground backdrop-blur-lg">All Tasks</h1>
+          <p className="text-muted-foreground mt-1">
+            View and manage all tasks across your projects
+          </p>
         </div>
-        <div className="flex flex-wrap gap-2">
-          <Select value={projectFilter} onValueChange={setProjectFilter}>
-            <SelectTrigger className="w-40">
-              <SelectValue placeholder="Project" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Projects</SelectItem>
-              {projects.map((project) => (
-                <SelectItem key={project.id} value={project.id}>
-                  {project.name}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger className="w-[140px]">
-              <SelectValue placeholder="Status" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="todo">To Do</SelectItem>
-              <SelectItem value="in-progress">In Progress</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
-            </SelectContent>
-          </Select>
-          <Select value={priorityFilter} onValueChange={setPriorityFilter}>
-            <SelectTrigger className="w-[140px]">
-              <SelectValue placeholder="Priority" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Priority</SelectItem>
-              <SelectItem value="low">Low</SelectItem>
-              <SelectItem value="medium">Medium</SelectItem>
-              <SelectItem value="high">High</SelectItem>
-            </SelectContent>
-          </Select>
+        <div className="flex gap-2">
+          <Tabs
+            value={view}
+            onValueChange={(value) => setView(value as typeof view)}
+          >
+            <TabsList>
+              <TabsTrigger value="board">
+                <Kanban className="h-4 w-4" />
+                Board
+              </TabsTrigger>
+              <TabsTrigger value="table">
+                <Table2 className="h-4 w-4" />
+                Table
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <SaveViewDialog filters={filters} disabled={!isFiltered} />
+          <TaskCsvImport
+            defaultProjectId={
+              filters.project === "all" ? undefined : filters.project
+            }
+          />
+          <Button
+            variant="outline"
+            disabled={filteredTasks.length === 0}
+            onClick={handleExport}
+          >
+            <Download className="h-5 w-5" />
+            Export CSV
+          </Button>
         </div>
       </motion.div>
 
-      {/* Kanban View */}
-      {filteredTasks.length > 0 ? (
+      {/* Filters */}
+      <motion.div variants={itemVariants}>
+        <TaskFilterBar filters={filters} onChange={setFilter} />
+      </motion.div>
+
+      {/* Table or Kanban View */}
+      {filteredTasks.length > 0 && view === "table" ? (
+        <motion.div variants={itemVariants}>
+          <TaskTable
+            tasks={sortedTasks}
+            layout={layout}
+            onLayoutChange={setLayout}
+            onStatusChange={handleStatusChange}
+            linkTo={(task) => `/tasks/${task.id}`}
+            highlightedId={selection.selectedId}
+            selection={taskSelection}
+          />
+        </motion.div>
+      ) : filteredTasks.length > 0 ? (
         <motion.div
           variants={itemVariants}
-          className="grid gap-6 lg:grid-cols-3"
+          className="grid gap-6 overflow-x-auto pb-2"
+          style={{
+            gridTemplateColumns: `repeat(${columns.length}, minmax(16rem, 1fr))`,
+          }}
         >
-          {(["todo", "in-progress", "completed"] as const).map((status) => (
-            <Card key={status} className="h-fit">
-              <CardHeader className="pb-3">
-                <CardTitle className="flex items-center justify-between text-base">
-                  <span className="flex items-center gap-2">
-                    {status === "todo" && (
-                      <div className="h-3 w-3 rounded-full bg-muted-foreground" />
-                    )}
-                    {status === "in-progress" && (
-                      <div className="h-3 w-3 rounded-full bg-accent" />
-                    )}
-                    {status === "completed" && (
-                      <div className="h-3 w-3 rounded-full bg-success" />
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCorners}
+            onDragEnd={handleDragEnd}
+          >
+            {columns.map(({ id: status, name, color }) => (
+              <Card key={status} className="h-fit">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span className="flex items-center gap-2">
+                      <div
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: color }}
+                      />
+                      {name}
+                    </span>
+                    <Badge variant="secondary" className="font-normal">
+                      {groupedByStatus[status].length}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <DroppableColumn id={status} className="space-y-3 min-h-16">
+                    <SortableContext
+                      items={groupedByStatus[status].map((task) => task.id)}
+                      strategy={verticalListSortingStrategy}
+                    >
+                      <AnimatePresence>
+                        {groupedByStatus[status].map((task) => {
+                          const project = getProjectById(task.projectId);
+                          const isDone = isTaskDone(task, projects);
+                          const parent = task.parentId
+                            ? tasks.find((t) => t.id === task.parentId)
+                            : undefined;
+                          const isOverdue =
+                            !isDone &&
+                            isBefore(new Date(task.dueDate), new Date());
+
+                          return (
+                            <motion.div
+                              key={task.id}
+                              layout
+                              initial={{ opacity: 0, scale: 0.9 }}
+                              animate={{ opacity: 1, scale: 1 }}
+                              exit={{ opacity: 0, scale: 0.9 }}
+                              className="group"
+                              data-selection-id={task.id}
+                            >
+                              <SortableItem id={task.id}>
+                                <Card
+                                  className={`bg-secondary/50 hover:bg-secondary transition-colors ${
+                                    selection.selectedId === task.id
+                                      ? "ring-2 ring-primary"
+                                      : ""
+                                  }`}
+                                >
+                                  <CardContent className="p-3">
+                                    <div className="flex items-start justify-between gap-2 mb-2">
+                                      <TaskSelectCheckbox
+                                        title={task.title}
+                                        checked={taskSelection.isSelected(
+                                          task.id
+                                        )}
+                                        selecting={bulkSelected.length > 0}
+                                        onToggle={(range) =>
+                                          taskSelection.toggle(task.id, range)
+                                        }
+                                        className="mt-0.5"
+                                      />
+                                      <h4
+                                        className={`flex-1 min-w-0 text-sm font-medium ${
+                                          isDone
+                                            ? "line-through text-muted-foreground"
+                                            : "text-foreground"
+                                        }`}
+                                      >
+                                        <Link
+                                          to={`/tasks/${task.id}`}
+                                          className="hover:underline"
+                                        >
+                                          {task.title}
+                                        </Link>
+                                      </h4>
+                                      <DropdownMenu>
+                                        <DropdownMenuTrigger asChild>
+                                          <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                                          >
+                                            <MoreHorizontal className="h-3 w-3" />
+                                          </Button>
+                                        </DropdownMenuTrigger>
+                                        <DropdownMenuContent align="end">
+                                          {getWorkflow(project)
+                                            .filter(
+                                              (option) => option.id !== status
+                                            )
+                                            .map((target) => (
+                                              <DropdownMenuItem
+                                                key={target.id}
+                                                onClick={() =>
+                                                  handleStatusChange(
+                                                    task,
+                                                    target.id
+                                                  )
+                                                }
+                                              >
+                                                Move to {target.name}
+                                              </DropdownMenuItem>
+                                            ))}
+                                          <DropdownMenuItem
+                                            onClick={() =>
+                                              setDeleteConfirmTask(task)
+                                            }
+                                            className="text-destructive focus:text-destructive"
+                                          >
+                                            <Trash2 className="h-4 w-4 mr-2" />
+                                            Delete
+                                          </DropdownMenuItem>
+                                        </DropdownMenuContent>
+                                      </DropdownMenu>
+                                    </div>
+
+                                    {parent && (
+                                      <p className="text-[10px] text-muted-foreground mb-1 truncate">
+                                        Subtask of {parent.title}
+                                      </p>
+                                    )}
+
+                                    {task.description && (
+                                      <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
+                                        {task.description}
+                                      </p>
+                                    )}
+
+                                    <div className="flex flex-wrap items-center gap-1.5">
+                                      <Badge
+                                        variant="secondary"
+                                        className={`${
+                                          priorityColors[task.priority]
+                                        } text-[10px] px-1.5 py-0`}
+                                      >
+                                        <Flag className="h-2.5 w-2.5 mr-0.5" />
+                                        {task.priority}
+                                      </Badge>
+
+                                      <span
+                                        className={`text-[10px] flex items-center gap-0.5 ${
+                                          isOverdue
+                                            ? "text-destructive"
+                                            : "text-muted-foreground"
+                                        }`}
+                                      >
+                                        {isOverdue && (
+                                          <AlertCircle className="h-2.5 w-2.5" />
+                                        )}
+                                        <Calendar className="h-2.5 w-2.5" />
+                                        {format(
+                                          new Date(task.dueDate),
+                                          "MMM d"
+                                        )}
+                                      </span>
+
+                                      <TaskProgress
+                                        task={task}
+                                        className="text-[10px]"
+                                      />
+                                      <BlockedBadge
+                                        task={task}
+                                        className="text-[10px] px-1.5 py-0"
+                                      />
+                                    </div>
+
+                                    {project && (
+                                      <Link
+                                        to={`/projects/${project.id}`}
+                                        className="mt-2 block"
+                                      >
+                                        <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground hover:text-foreground transition-colors">
+                                          <div
+                                            className="h-2 w-2 rounded-full"
+                                            style={{
+                                              backgroundColor: project.color,
+                                            }}
+                                          />
+                                          {project.name}
+                                        </div>
+                                      </Link>
+                                    )}
+                                  </CardContent>
+                                </Card>
+                              </SortableItem>
+                            </motion.div>
+                          );
+                        })}
+                      </AnimatePresence>
+                    </SortableContext>
+
+                    {groupedByStatus[status].length === 0 && (
+                      <p className="text-xs text-muted-foreground text-center py-4">
+                        No tasks
+                      </p>
                     )}
-                    {status === "todo" && "To Do"}
-                    {status === "in-progress" && "In Progress"}
-                    {status === "completed" && "Completed"}
-                  </span>
-                  <Badge variant="secondary" className="font-normal">
-                    {groupedByStatus[status].length}
-                  </Badge>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <AnimatePresence>
-                  {groupedByStatus[status].map((task) => {
-                    const project = getProjectById(task.projectId);
-                    const isOverdue =
-                      task.status !== "completed" &&
-                      isBefore(new Date(task.dueDate), new Date());
-
-                    return (
-                      <motion.div
-                        key={task.id}
-                        layout
-                        initial={{ opacity: 0, scale: 0.9 }}
-                        animate={{ opacity: 1, scale: 1 }}
-                        exit={{ opacity: 0, scale: 0.9 }}
-                        className="group"
-                      >
-                        <Card className="bg-secondary/50 hover:bg-secondary transition-colors">
-                          <CardContent className="p-3">
-                            <div className="flex items-start justify-between gap-2 mb-2">
-                              <h4
-                                className={`text-sm font-medium ${
-                                  task.status === "completed"
-                                    ? "line-through text-muted-foreground"
-                                    : "text-foreground"
-                                }`}
-                              >
-                                {task.title}
-                              </h4>
-                              <DropdownMenu>
-                                <DropdownMenuTrigger asChild>
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
-                                  >
-                                    <MoreHorizontal className="h-3 w-3" />
-                                  </Button>
-                                </DropdownMenuTrigger>
-                                <DropdownMenuContent align="end">
-                                  {status !== "todo" && (
-                                    <DropdownMenuItem
-                                      onClick={() =>
-                                        handleStatusChange(task.id, "todo")
-                                      }
-                                    >
-                                      Move to To Do
-                                    </DropdownMenuItem>
-                                  )}
-                                  {status !== "in-progress" && (
-                                    <DropdownMenuItem
-                                      onClick={() =>
-                                        handleStatusChange(
-                                          task.id,
-                                          "in-progress"
-                                        )
-                                      }
-                                    >
-                                      Move to In Progress
-                                    </DropdownMenuItem>
-                                  )}
-                                  {status !== "completed" && (
-                                    <DropdownMenuItem
-                                      onClick={() =>
-                                        handleStatusChange(task.id, "completed")
-                                      }
-                                    >
-                                      Mark Complete
-                                    </DropdownMenuItem>
-                                  )}
-                                  <DropdownMenuItem
-                                    onClick={() => setDeleteConfirmTask(task)}
-                                    className="text-destructive focus:text-destructive"
-                                  >
-                                    <Trash2 className="h-4 w-4 mr-2" />
-                                    Delete
-                                  </DropdownMenuItem>
-                                </DropdownMenuContent>
-                              </DropdownMenu>
-                            </div>
-
-                            {task.description && (
-                              <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
-                                {task.description}
-                              </p>
-                            )}
-
-                            <div className="flex flex-wrap items-center gap-1.5">
-                              <Badge
-                                variant="secondary"
-                                className={`${
-                                  priorityColors[task.priority]
-                                } text-[10px] px-1.5 py-0`}
-                              >
-                                <Flag className="h-2.5 w-2.5 mr-0.5" />
-                                {task.priority}
-                              </Badge>
-
-                              <span
-                                className={`text-[10px] flex items-center gap-0.5 ${
-                                  isOverdue
-                                    ? "text-destructive"
-                                    : "text-muted-foreground"
-                                }`}
-                              >
-                                {isOverdue && (
-                                  <AlertCircle className="h-2.5 w-2.5" />
-                                )}
-                                <Calendar className="h-2.5 w-2.5" />
-                                {format(new Date(task.dueDate), "MMM d")}
-                              </span>
-                            </div>
-
-                            {project && (
-                              <Link
-                                to={`/projects/${project.id}`}
-                                className="mt-2 block"
-                              >
-                                <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground hover:text-foreground transition-colors">
-                                  <div
-                                    className="h-2 w-2 rounded-full"
-                                    style={{ backgroundColor: project.color }}
-                                  />
-                                  {project.name}
-                                </div>
-                              </Link>
-                            )}
-                          </CardContent>
-                        </Card>
-                      </motion.div>
-                    );
-                  })}
-                </AnimatePresence>
-
-                {groupedByStatus[status].length === 0 && (
-                  <p className="text-xs text-muted-foreground text-center py-4">
-                    No tasks
-                  </p>
-                )}
-              </CardContent>
-            </Card>
-          ))}
+                  </DroppableColumn>
+                </CardContent>
+              </Card>
+            ))}
+          </DndContext>
         </motion.div>
       ) : (
         <motion.div variants={itemVariants} className="text-center py-16">
           <CheckSquare className="h-16 w-16 text-muted-foreground/30 mx-auto mb-4" />
           <h3 className="text-lg font-semibold text-foreground mb-2">
-            {search ||
-            statusFilter !== "all" ||
-            priorityFilter !== "all" ||
-            projectFilter !== "all"
-              ? "No tasks found"
-              : "No tasks yet"}
+            {isFiltered ? "No tasks found" : "No tasks yet"}
           </h3>
           <p className="text-muted-foreground mb-6">
-            {search ||
-            statusFilter !== "all" ||
-            priorityFilter !== "all" ||
-            projectFilter !== "all"
+            {isFiltered
               ? "Try adjusting your filters"
               : "Create a project first, then add tasks to it"}
           </p>
-          {!search &&
-            statusFilter === "all" &&
-            priorityFilter === "all" &&
-            projectFilter === "all" && (
-              <Link to="/projects">
-                <Button variant="gradient">
-                  <FolderKanban className="h-5 w-5" />
-                  Go to Projects
-                </Button>
-              </Link>
-            )}
+          {!isFiltered && (
+            <Link to="/projects">
+              <Button variant="gradient">
+                <FolderKanban className="h-5 w-5" />
+                Go to Projects
+              </Button>
+            </Link>
+          )}
         </motion.div>
       )}
 
+      <BulkActionBar
+        selected={bulkSelected}
+        onClear={taskSelection.clear}
+      />
+
+      <StatusChangeDialog
+        pending={statusChange.pending}
+        onConfirm={statusChange.confirm}
+        onCancel={statusChange.cancel}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog
         open={!!deleteConfirmTask}
@@ -402,8 +604,11 @@ export default function Tasks() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Task?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete "{deleteConfirmTask?.title}". This
-              action cannot be undone.
+              "{deleteConfirmTask?.title}"
+              {deleteConfirmSubtasks > 0 &&
+                ` and its ${deleteConfirmSubtasks} subtask${deleteConfirmSubtasks === 1 ? "" : "s"}`}{" "}
+              will be moved to the trash, where it can be restored until it's
+              purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,53 @@
+import { motion } from "framer-motion";
+import { Card, CardContent } from "@/components/ui/card";
+import { useTaskFilters } from "@/hooks/use-task-filters";
+import { TaskFilterBar } from "@/components/tasks/TaskFilterBar";
+import { TaskTimeline } from "@/components/tasks/TaskTimeline";
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  show: {
+    opacity: 1,
+    transition: { staggerChildren: 0.05 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  show: { opacity: 1, y: 0 },
+};
+
+export default function Timeline() {
+  const { filters, setFilter, filteredTasks } = useTaskFilters();
+
+  return (
+    <motion.div
+      variants={containerVariants}
+      initial="hidden"
+      animate="show"
+      className="space-y-6"
+    >
+      {/* Header */}
+      <motion.div variants={itemVariants}>
+        <h1 className="text-3xl font-bold text-foreground">Timeline</h1>
+        <p className="text-muted-foreground mt-1">
+          Schedule tasks across projects; drag bars or their edges to change
+          dates
+        </p>
+      </motion.div>
+
+      {/* Filters */}
+      <motion.div variants={itemVariants}>
+        <TaskFilterBar filters={filters} onChange={setFilter} />
+      </motion.div>
+
+      <motion.div variants={itemVariants}>
+        <Card>
+          <CardContent className="p-4">
+            <TaskTimeline tasks={filteredTasks} groupByProject />
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { ArchiveRestore, FolderKanban, ListTodo, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useStore } from "@/store/useStore";
+import type { Project, Task } from "@/store/useStore";
+import { toast } from "@/hooks/use-toast";
+import { undoAction } from "@/hooks/use-undo";
+import { getPurgeDate, getTrashRoots } from "@/lib/trash";
+import { getDescendantIds } from "@/lib/subtasks";
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  show: {
+    opacity: 1,
+    transition: { staggerChildren: 0.05 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  show: { opacity: 1, y: 0 },
+};
+
+type TrashItem =
+  { type: "project"; item: Project } | { type: "task"; item: Task };
+
+/** What's about to be permanently deleted; "all" empties the trash. */
+type PurgeTarget = TrashItem | "all";
+
+const newestFirst = (a: TrashItem, b: TrashItem) =>
+  (b.item.deletedAt ?? "").localeCompare(a.item.deletedAt ?? "");
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export default function Trash() {
+  const {
+    projects,
+    tasks,
+    trashRetentionDays,
+    restoreProject,
+    restoreTask,
+    purgeProject,
+    purgeTask,
+    emptyTrash,
+  } = useStore();
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null);
+
+  const items = useMemo(() => {
+    const roots = getTrashRoots(projects, tasks);
+    return [
+      ...roots.projects.map((item): TrashItem => ({ type: "project", item })),
+      ...roots.tasks.map((item): TrashItem => ({ type: "task", item })),
+    ].sort(newestFirst);
+  }, [projects, tasks]);
+
+  const nameOf = ({ type, item }: TrashItem) =>
+    type === "project" ? item.name : item.title;
+
+  const detailsOf = ({ type, item }: TrashItem) => {
+    if (type === "project") {
+      const count = tasks.filter((t) => t.projectId === item.id).length;
+      return `Project · ${plural(count, "task")}`;
+    }
+    const project = projects.find((p) => p.id === item.projectId);
+    const subtasks = getDescendantIds(tasks, item.id).length;
+    return [
+      `Task in ${project?.name ?? "a deleted project"}`,
+      subtasks > 0 && plural(subtasks, "subtask"),
+    ]
+      .filter(Boolean)
+      .join(" · ");
+  };
+
+  const handleRestore = (target: TrashItem) => {
+    if (target.type === "project") {
+      restoreProject(target.item.id);
+    } else {
+      restoreTask(target.item.id);
+    }
+    toast({
+      title: `${target.type === "project" ? "Project" : "Task"} restored`,
+      description: `"${nameOf(target)}" is back where it was.`,
+      action: undoAction(),
+    });
+  };
+
+  const handlePurge = () => {
+    if (!purgeTarget) return;
+    if (purgeTarget === "all") {
+      emptyTrash();
+      toast({ title: "Trash emptied", action: undoAction() });
+    } else {
+      if (purgeTarget.type === "project") {
+        purgeProject(purgeTarget.item.id);
+      } else {
+        purgeTask(purgeTarget.item.id);
+      }
+      toast({
+        title: "Permanently deleted",
+        description: `"${nameOf(purgeTarget)}" has been deleted.`,
+        action: undoAction(),
+      });
+    }
+    setPurgeTarget(null);
+  };
+
+  return (
+    <motion.div
+      variants={containerVariants}
+      initial="hidden"
+      animate="show"
+      className="space-y-6"
+    >
+      {/* Header */}
+      <motion.div
+        variants={itemVariants}
+        className="flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Trash</h1>
+          <p className="text-muted-foreground mt-1">
+            {trashRetentionDays > 0
+              ? `Deleted projects and tasks are kept for ${trashRetentionDays} days, then permanently deleted.`
+              : "Deleted projects and tasks are kept until you empty the trash."}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          disabled={items.length === 0}
+          onClick={() => setPurgeTarget("all")}
+        >
+          <Trash2 className="h-4 w-4" />
+          Empty Trash
+        </Button>
+      </motion.div>
+
+      {items.length > 0 ? (
+        <motion.div variants={itemVariants}>
+          <Card>
+            <CardContent className="divide-y divide-border p-0">
+              {items.map((target) => {
+                const Icon =
+                  target.type === "project" ? FolderKanban : ListTodo;
+                const purgeDate = getPurgeDate(target.item, trashRetentionDays);
+                return (
+                  <div
+                    key={target.item.id}
+                    className="flex flex-col sm:flex-row sm:items-center gap-3 p-4"
+                  >
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground truncate">
+                          {nameOf(target)}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {detailsOf(target)} · Deleted{" "}
+                          {formatDistanceToNow(
+                            new Date(target.item.deletedAt!),
+                            { addSuffix: true }
+                          )}
+                          {purgeDate &&
+                            ` · Purged ${formatDistanceToNow(purgeDate, { addSuffix: true })}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(target)}
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setPurgeTarget(target)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Delete Forever
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </motion.div>
+      ) : (
+        <motion.div variants={itemVariants} className="text-center py-16">
+          <Trash2 className="h-16 w-16 text-muted-foreground/30 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-foreground mb-2">
+            Trash is empty
+          </h3>
+          <p className="text-muted-foreground">
+            Deleted projects and tasks show up here until they're purged.
+          </p>
+        </motion.div>
+      )}
+
+      {/* Permanent Delete Confirmation */}
+      <AlertDialog
+        open={!!purgeTarget}
+        onOpenChange={() => setPurgeTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTarget === "all" ? "Empty Trash?" : "Delete Forever?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget === "all"
+                ? `All ${plural(items.length, "item")} in the trash will be permanently deleted.`
+                : purgeTarget &&
+                  `"${nameOf(purgeTarget)}" will be permanently deleted${purgeTarget.type === "project" ? " along with its tasks" : ""}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </motion.div>
+  );
+}
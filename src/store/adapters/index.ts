@@ -0,0 +1,7 @@
+import { localAdapter } from "./local";
+import { restAdapter } from "./rest";
+
+export type { PersistenceAdapter } from "./types";
+
+export const adapter =
+  import.meta.env.VITE_STORAGE_ADAPTER === "rest" ? restAdapter : localAdapter;
@@ -0,0 +1,81 @@
+import { generateId } from "@/lib/utils";
+import { hashPassword, verifyPassword } from "@/lib/password";
+import type { PasswordHash } from "@/lib/password";
+import { loadWorkspace } from "../workspace";
+import type { PersistenceAdapter } from "./types";
+
+interface StoredUser {
+  id?: string;
+  name: string;
+  email: string;
+  credentials?: PasswordHash;
+  /** Plaintext password from before hashing; removed on next login. */
+  password?: string;
+}
+
+const USERS_KEY = "promanage-users";
+
+const readUsers = (): StoredUser[] =>
+  JSON.parse(localStorage.getItem(USERS_KEY) || "[]");
+
+const writeUsers = (users: StoredUser[]) =>
+  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+
+// The persist middleware already writes the active workspace to localStorage
+// on every state change, so there is nothing left to mirror per mutation.
+const persisted = async () => {};
+
+export const localAdapter: PersistenceAdapter = {
+  remote: false,
+
+  login: async (email, password) => {
+    const storedUsers = readUsers();
+    const user = storedUsers.find((u) => u.email === email);
+    if (!user) return null;
+
+    if (user.credentials) {
+      if (!(await verifyPassword(password, user.credentials))) {
+        return null;
+      }
+    } else {
+      // Accounts saved before hashing kept the raw password; upgrade them
+      // the first time the right password is presented.
+      if (user.password !== password) return null;
+      user.credentials = await hashPassword(password);
+      delete user.password;
+    }
+
+    // Accounts created before ids were assigned get one now so their
+    // workspace stays reachable on the next login.
+    user.id = user.id || generateId();
+    writeUsers(storedUsers);
+
+    return { id: user.id, name: user.name, email: user.email };
+  },
+
+  register: async (name, email, password) => {
+    const credentials = await hashPassword(password);
+    const storedUsers = readUsers();
+    if (storedUsers.find((u) => u.email === email)) {
+      return null;
+    }
+    const id = generateId();
+    storedUsers.push({ id, name, email, credentials });
+    writeUsers(storedUsers);
+    return { id, name, email };
+  },
+
+  logout: persisted,
+
+  fetchWorkspace: async (user) => loadWorkspace(user.id),
+
+  createProject: persisted,
+  updateProject: persisted,
+  deleteProject: persisted,
+
+  createTask: persisted,
+  updateTask: persisted,
+  deleteTask: persisted,
+
+  recordActivity: persisted,
+};
@@ -0,0 +1,104 @@
+import type { ActivityEntry, Project, Task, User } from "../useStore";
+import { normalizeWorkspace } from "../workspace";
+import type { PersistenceAdapter } from "./types";
+
+const TOKEN_KEY = "promanage-api-token";
+
+const baseUrl = import.meta.env.VITE_API_URL || "/api";
+
+async function request<T>(
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const token = localStorage.getItem(TOKEN_KEY);
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    // JSON has no undefined, so fields being cleared are sent as null.
+    body:
+      body === undefined
+        ? undefined
+        : JSON.stringify(body, (_key, value) =>
+            value === undefined ? null : value
+          ),
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(
+      payload?.error || `${method} ${path} failed with ${response.status}`
+    );
+  }
+  if (response.status === 204) return undefined as T;
+  return response.json();
+}
+
+/** Reads fields cleared to null back as missing, the way the app keeps them. */
+const dropNulls = <T extends object>(item: T) =>
+  Object.fromEntries(
+    Object.entries(item).filter(([, value]) => value !== null)
+  ) as T;
+
+const authenticate = async (path: string, body: unknown) => {
+  try {
+    const { user, token } = await request<{ user: User; token: string }>(
+      "POST",
+      path,
+      body
+    );
+    localStorage.setItem(TOKEN_KEY, token);
+    return user;
+  } catch {
+    return null;
+  }
+};
+
+export const restAdapter: PersistenceAdapter = {
+  remote: true,
+
+  login: (email, password) => authenticate("/auth/login", { email, password }),
+
+  register: (name, email, password) =>
+    authenticate("/auth/register", { name, email, password }),
+
+  logout: async () => {
+    await request("POST", "/auth/logout").catch(() => undefined);
+    localStorage.removeItem(TOKEN_KEY);
+  },
+
+  fetchWorkspace: async () => {
+    const [projects, tasks, activity] = await Promise.all([
+      request<Project[]>("GET", "/projects"),
+      request<Task[]>("GET", "/tasks"),
+      request<ActivityEntry[]>("GET", "/activity"),
+    ]);
+    return normalizeWorkspace({
+      projects: projects.map(dropNulls),
+      tasks: tasks.map(dropNulls),
+      activity,
+    });
+  },
+
+  createProject: (project) => request("POST", "/projects", project),
+  updateProject: (id, project) => request("PATCH", `/projects/${id}`, project),
+  deleteProject: (id) => request("DELETE", `/projects/${id}`),
+
+  createTask: (task) => request("POST", "/tasks", task),
+  updateTask: (id, task) => request("PATCH", `/tasks/${id}`, task),
+  deleteTask: (id) => request("DELETE", `/tasks/${id}`),
+
+  recordActivity: (entry) => request("PUT", `/activity/${entry.id}`, entry),
+
+  calendarFeedUrl: async () => {
+    const { token } = await request<{ token: string }>(
+      "GET",
+      "/calendar/token"
+    );
+    return new URL(`${baseUrl}/calendar/${token}.ics`, window.location.origin)
+      .href;
+  },
+};
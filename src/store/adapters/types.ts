@@ -0,0 +1,39 @@
+import type { ActivityEntry, Project, Task, User } from "../useStore";
+import type { Workspace } from "../workspace";
+
+/**
+ * Where accounts and workspace data are kept. The store applies every change
+ * to its own state first and then hands it to the adapter, so adapters only
+ * have to mirror mutations, never drive the UI.
+ */
+export interface PersistenceAdapter {
+  /** Remote adapters round-trip through the network and need syncing. */
+  remote: boolean;
+
+  login: (email: string, password: string) => Promise<User | null>;
+  register: (
+    name: string,
+    email: string,
+    password: string
+  ) => Promise<User | null>;
+  logout: () => Promise<void>;
+
+  fetchWorkspace: (user: User) => Promise<Workspace>;
+
+  createProject: (project: Project) => Promise<void>;
+  updateProject: (id: string, project: Partial<Project>) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+
+  createTask: (task: Task) => Promise<void>;
+  updateTask: (id: string, task: Partial<Task>) => Promise<void>;
+  deleteTask: (id: string) => Promise<void>;
+
+  /** Stores a log entry; compacted entries are re-sent under the same id. */
+  recordActivity: (entry: ActivityEntry) => Promise<void>;
+
+  /**
+   * A private URL calendar apps can subscribe to for task due dates. Only
+   * backends that can serve the feed themselves provide one.
+   */
+  calendarFeedUrl?: () => Promise<string>;
+}
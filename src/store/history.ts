@@ -0,0 +1,93 @@
+import type { Project, Task } from "./useStore";
+
+/** The workspace as it stood before an undoable change. */
+export interface HistoryEntry {
+  /** What the change did, e.g. "Delete task", for "Undo …" messages. */
+  label: string;
+  projects: Project[];
+  tasks: Task[];
+}
+
+/** Older steps fall off the bottom of the undo stack beyond this. */
+export const MAX_HISTORY = 50;
+
+interface CollectionDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: { before: T; after: T }[];
+}
+
+const isEqual = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** What turning `from` into `to` takes, matching items up by id. */
+export const diffById = <T extends { id: string }>(
+  from: T[],
+  to: T[]
+): CollectionDiff<T> => {
+  const before = new Map(from.map((item) => [item.id, item]));
+  const after = new Map(to.map((item) => [item.id, item]));
+  return {
+    added: to.filter((item) => !before.has(item.id)),
+    removed: from.filter((item) => !after.has(item.id)),
+    changed: to
+      .filter((item) => before.has(item.id))
+      .map((item) => ({ before: before.get(item.id)!, after: item }))
+      .filter(({ before, after }) => !isEqual(before, after)),
+  };
+};
+
+/** A patch that turns `before` into `after`, clearing fields `after` lacks. */
+export const replacementPatch = <T extends object>(
+  before: T,
+  after: T
+): Partial<T> => ({
+  ...Object.fromEntries(Object.keys(before).map((key) => [key, undefined])),
+  ...after,
+});
+
+/**
+ * Takes back `changes` after they failed to save. Only fields still holding
+ * the value the change gave them go back to `previous`, so edits made since
+ * aren't lost with it.
+ */
+export const revertFields = <T extends object>(
+  current: T,
+  previous: T,
+  changes: Partial<T>
+): T => {
+  const reverted = { ...current };
+  (Object.keys(changes) as (keyof T)[]).forEach((key) => {
+    if (current[key] === changes[key]) reverted[key] = previous[key];
+  });
+  return reverted;
+};
+
+/**
+ * Takes back a diff after it failed to save, the same way: added items are
+ * dropped, removed ones come back unless something already brought them
+ * back, and changed ones revert field by field.
+ */
+export const revertDiff = <T extends { id: string }>(
+  current: T[],
+  diff: CollectionDiff<T>
+): T[] => {
+  const added = new Set(diff.added.map((item) => item.id));
+  const changed = new Map(
+    diff.changed.map((change) => [change.after.id, change])
+  );
+  const kept = current
+    .filter((item) => !added.has(item.id))
+    .map((item) => {
+      const change = changed.get(item.id);
+      return change
+        ? revertFields(
+            item,
+            change.before,
+            replacementPatch(change.before, change.after)
+          )
+        : item;
+    });
+  const ids = new Set(kept.map((item) => item.id));
+  return [...kept, ...diff.removed.filter((item) => !ids.has(item.id))];
+};
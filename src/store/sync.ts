@@ -0,0 +1,36 @@
+import { MutationObserver } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { adapter } from "./adapters";
+
+export const workspaceQueryKey = ["workspace"] as const;
+
+/**
+ * Mirrors a change the store has already applied optimistically. Remote
+ * adapters run it as a react-query mutation under the workspace key, so
+ * failures roll the store back, the workspace is refetched once the server
+ * has settled, and components can follow saves with react-query's hooks.
+ */
+export function syncMutation(run: () => Promise<void>, rollback: () => void) {
+  if (!adapter.remote) {
+    void run();
+    return;
+  }
+
+  const observer = new MutationObserver(queryClient, {
+    mutationKey: workspaceQueryKey,
+    mutationFn: run,
+    retry: 1,
+    onError: (error: Error) => {
+      rollback();
+      toast({
+        title: "Couldn't save changes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: workspaceQueryKey }),
+  });
+  observer.mutate().catch(() => undefined);
+}
@@ -1,5 +1,36 @@
 import { create } from "zustand";
+import type { StoreApi } from "zustand";
 import { persist } from "zustand/middleware";
+import { generateId } from "@/lib/utils";
+import { DEFAULT_WORKFLOW } from "@/lib/workflow";
+import { getDescendantIds } from "@/lib/subtasks";
+import { wouldCreateCycle } from "@/lib/dependencies";
+import { appendActivity, diffFields } from "@/lib/activity";
+import { isPastRetention } from "@/lib/trash";
+import { isArchived } from "@/lib/archive";
+import { byOrder, ranksNeedSpacing, spaceRanks } from "@/lib/ordering";
+import { applyImport, mergeActivity } from "@/lib/backup";
+import type { ImportMode } from "@/lib/backup";
+import type { ShortcutBindings, ShortcutId } from "@/lib/shortcuts";
+import type { TableLayout } from "@/lib/taskTable";
+import {
+  defaultPreferences,
+  emptyWorkspace,
+  loadPreferences,
+  stashLegacyWorkspace,
+  workspaceStorage,
+} from "./workspace";
+import type { PersistedAppState, Workspace } from "./workspace";
+import {
+  MAX_HISTORY,
+  diffById,
+  replacementPatch,
+  revertDiff,
+  revertFields,
+} from "./history";
+import type { HistoryEntry } from "./history";
+import { adapter } from "./adapters";
+import { syncMutation } from "./sync";
 
 export interface User {
   id: string;
@@ -8,15 +39,88 @@ export interface User {
   avatar?: string;
 }
 
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface StatusChange {
+  status: string;
+  at: string;
+}
+
 export interface Task {
   id: string;
   projectId: string;
   title: string;
   description: string;
-  status: "todo" | "in-progress" | "completed";
+  /** Id of a status in the owning project's workflow. */
+  status: string;
   priority: "low" | "medium" | "high";
   dueDate: string;
+  /** Planned start, as yyyy-MM-dd; empty or missing means unscheduled. */
+  startDate?: string;
   createdAt: string;
+  /** Rank within the status column; lower sorts first. */
+  order: number;
+  /** Set on subtasks; a subtask always lives in its parent's project. */
+  parentId?: string;
+  checklist: ChecklistItem[];
+  /** Ids of tasks, in any project, that must finish before this one. */
+  blockedBy: string[];
+  /** Every status the task has entered, oldest first, starting at creation. */
+  statusHistory: StatusChange[];
+  /** When the task went to the trash; unset while it's live. */
+  deletedAt?: string;
+}
+
+export type NewTask = Omit<
+  Task,
+  | "id"
+  | "createdAt"
+  | "order"
+  | "checklist"
+  | "blockedBy"
+  | "statusHistory"
+  | "deletedAt"
+> &
+  Partial<Pick<Task, "checklist" | "blockedBy">>;
+
+export interface TaskUpdate {
+  id: string;
+  changes: Partial<Task>;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ActivityEntry {
+  id: string;
+  /** `User.id` of whoever made the change. */
+  actorId: string;
+  actorName: string;
+  action: "created" | "updated" | "deleted" | "restored";
+  entityType: "project" | "task";
+  entityId: string;
+  /** Name or title at the time, so entries for deleted items still read. */
+  entityName: string;
+  /** The project the entity belongs to; a project's own id for projects. */
+  projectId: string;
+  /** Field-level diffs; empty for creations and deletions. */
+  changes: FieldChange[];
+  at: string;
+}
+
+export interface WorkflowStatus {
+  id: string;
+  name: string;
+  color: string;
+  /** Tasks in a done status count as complete and are never overdue. */
+  isDone: boolean;
 }
 
 export interface Project {
@@ -25,124 +129,1116 @@ export interface Project {
   description: string;
   color: string;
   createdAt: string;
+  /** Ordered workflow; the first status is where new tasks usually start. */
+  statuses: WorkflowStatus[];
+  /** When the project went to the trash, taking its tasks along. */
+  deletedAt?: string;
+  /** Set while the project is archived: hidden by default and read-only. */
+  archivedAt?: string;
+}
+
+/** A named set of Tasks page filters, kept as its query string. */
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
 }
 
 interface AppState {
   user: User | null;
   projects: Project[];
   tasks: Task[];
+  activity: ActivityEntry[];
   theme: "light" | "dark";
+  /** Days trashed items are kept before being purged; 0 keeps them. */
+  trashRetentionDays: number;
+  /** Keys the user has rebound, by shortcut; the rest keep their defaults. */
+  shortcutBindings: Partial<ShortcutBindings>;
+  /** Columns and sort shared by every task table. */
+  taskTableLayout: TableLayout;
+  /** Saved task views, in the order they were saved. */
+  savedViews: SavedView[];
+  /** Command palette items the user ran lately, newest first. */
+  recentCommands: string[];
+  /** Snapshots to step back through, newest last; kept for the session only. */
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
 
   // Auth actions
-  login: (email: string, password: string) => boolean;
-  register: (name: string, email: string, password: string) => boolean;
+  login: (email: string, password: string) => Promise<boolean>;
+  register: (name: string, email: string, password: string) => Promise<boolean>;
   logout: () => void;
 
   // Project actions
-  addProject: (project: Omit<Project, "id" | "createdAt">) => void;
+  /** Creates a project and returns it, so callers can add tasks to it. */
+  addProject: (
+    project: Omit<Project, "id" | "createdAt" | "statuses"> &
+      Partial<Pick<Project, "statuses">>
+  ) => Project;
   updateProject: (id: string, project: Partial<Project>) => void;
+  /** Moves the project and its tasks to the trash. */
   deleteProject: (id: string) => void;
+  restoreProject: (id: string) => void;
+  /** Deletes a trashed project and all of its tasks for good. */
+  purgeProject: (id: string) => void;
+  archiveProject: (id: string) => void;
+  unarchiveProject: (id: string) => void;
 
   // Task actions
-  addTask: (task: Omit<Task, "id" | "createdAt">) => void;
+  /** Creates a task and returns it; undefined if its project is archived. */
+  addTask: (task: NewTask) => Task | undefined;
   updateTask: (id: string, task: Partial<Task>) => void;
+  /** Applies several task edits as one change: one save and one undo step. */
+  updateTasks: (updates: TaskUpdate[]) => void;
+  reorderTask: (id: string, status: Task["status"], order: number) => void;
+  /** Replaces a task's blockers; returns false if that would form a cycle. */
+  setBlockedBy: (id: string, blockedBy: string[]) => boolean;
+  /** Moves the task and its subtasks to the trash. */
   deleteTask: (id: string) => void;
+  /** Moves several tasks and their subtasks to the trash as one change. */
+  deleteTasks: (ids: string[]) => void;
+  restoreTask: (id: string) => void;
+  /** Deletes a trashed task and its subtasks for good. */
+  purgeTask: (id: string) => void;
+
+  /**
+   * Brings in projects and tasks from a backup, merged with the workspace or
+   * replacing it. Activity from the backup is always merged in.
+   */
+  importWorkspace: (workspace: Workspace, mode: ImportMode) => void;
+
+  // Trash actions
+  emptyTrash: () => void;
+  /** Purges whatever has been in the trash longer than the retention period. */
+  purgeExpiredTrash: () => void;
+  setTrashRetention: (days: number) => void;
+
+  // Shortcut actions
+  /** Rebinds a shortcut; null puts it back to its default keys. */
+  setShortcutBinding: (id: ShortcutId, keys: string | null) => void;
+  resetShortcutBindings: () => void;
+
+  // View actions
+  setTaskTableLayout: (layout: TableLayout) => void;
+  /** Saves `query` as `name`, replacing any view already by that name. */
+  saveView: (name: string, query: string) => SavedView;
+  deleteView: (id: string) => void;
+  /** Puts a command palette item at the front of the recent list. */
+  rememberCommand: (id: string) => void;
+
+  // History actions
+  /** Reverts the latest change, returning its label; undefined if none. */
+  undo: () => string | undefined;
+  /** Reapplies the latest undone change, returning its label. */
+  redo: () => string | undefined;
+  /** Runs `fn` so that every change it makes undoes as a single step. */
+  batch: (label: string, fn: () => void) => void;
 
   // Theme actions
   toggleTheme: () => void;
   setTheme: (theme: "light" | "dark") => void;
 }
 
-const generateId = () => Math.random().toString(36).substr(2, 9);
+const MAX_RECENT_COMMANDS = 5;
+
+/**
+ * History entries for moving `task` to `status`, or nothing if it stays put.
+ * Tasks saved before history was recorded have their prior status backdated
+ * to creation, the best guess available.
+ */
+const trackStatus = (
+  task: Task,
+  status: string | undefined
+): Pick<Task, "statusHistory"> | undefined => {
+  if (status === undefined || status === task.status) return undefined;
+  const history = task.statusHistory.length
+    ? task.statusHistory
+    : [{ status: task.status, at: task.createdAt }];
+  return {
+    statusHistory: [...history, { status, at: new Date().toISOString() }],
+  };
+};
+
+type ActivityInput = Pick<
+  ActivityEntry,
+  "action" | "entityType" | "entityId" | "entityName" | "projectId"
+> &
+  Partial<Pick<ActivityEntry, "changes">>;
+
+/**
+ * Adds an entry to the activity log, returning it along with a way to take
+ * it back out if the change it describes is rolled back.
+ */
+const logActivity = (
+  get: () => AppState,
+  set: StoreApi<AppState>["setState"],
+  input: ActivityInput
+) => {
+  const { user, activity } = get();
+  const { entry, log, replaced } = appendActivity(activity, {
+    changes: [],
+    ...input,
+    id: generateId(),
+    actorId: user?.id ?? "",
+    actorName: user?.name ?? "",
+    at: new Date().toISOString(),
+  });
+  set({ activity: log });
+  return {
+    entry,
+    undo: () =>
+      set((state) => ({
+        activity: replaced
+          ? state.activity.map((e) => (e.id === entry.id ? replaced : e))
+          : state.activity.filter((e) => e.id !== entry.id),
+      })),
+  };
+};
+
+/**
+ * Adds several entries to the activity log without saving it, so a change
+ * made in bulk can save the log along with everything else in one update.
+ */
+const appendActivities = (get: () => AppState, inputs: ActivityInput[]) => {
+  const { user } = get();
+  let log = get().activity;
+  const appended = inputs.map((input) => {
+    const result = appendActivity(log, {
+      changes: [],
+      ...input,
+      id: generateId(),
+      actorId: user?.id ?? "",
+      actorName: user?.name ?? "",
+      at: new Date().toISOString(),
+    });
+    log = result.log;
+    return result;
+  });
+  return {
+    activity: log,
+    entries: appended.map(({ entry }) => entry),
+    /** Takes the entries back out of `activity`, newest first. */
+    undo: (activity: ActivityEntry[]) =>
+      appended.reduceRight(
+        (current, { entry, replaced }) =>
+          replaced
+            ? current.map((e) => (e.id === entry.id ? replaced : e))
+            : current.filter((e) => e.id !== entry.id),
+        activity
+      ),
+  };
+};
+
+/** The log entry for the fields `changes` actually alters, if any. */
+const taskUpdateActivity = (
+  previous: Task,
+  changes: Partial<Task>
+): ActivityInput | undefined => {
+  const diff = diffFields(previous, changes);
+  if (diff.length === 0) return undefined;
+  return {
+    action: "updated",
+    entityType: "task",
+    entityId: previous.id,
+    entityName: changes.title ?? previous.title,
+    projectId: changes.projectId ?? previous.projectId,
+    changes: diff,
+  };
+};
+
+/** Logs the fields `changes` actually alters, if any. */
+const logTaskUpdate = (
+  get: () => AppState,
+  set: StoreApi<AppState>["setState"],
+  previous: Task,
+  changes: Partial<Task>
+) => {
+  const input = taskUpdateActivity(previous, changes);
+  return input && logActivity(get, set, input);
+};
+
+/**
+ * Stamps projects and tasks with `deletedAt`, or clears it to restore them,
+ * and mirrors that to the adapter as ordinary updates. Each input is logged
+ * as its own entry.
+ */
+const setDeletedAt = (
+  get: () => AppState,
+  set: StoreApi<AppState>["setState"],
+  ids: { projects: string[]; tasks: string[] },
+  deletedAt: string | undefined,
+  ...inputs: ActivityInput[]
+) => {
+  const { projects, tasks } = get();
+  const previousProjects = new Map(
+    projects.filter((p) => ids.projects.includes(p.id)).map((p) => [p.id, p])
+  );
+  const previousTasks = new Map(
+    tasks.filter((t) => ids.tasks.includes(t.id)).map((t) => [t.id, t])
+  );
+  const logged = appendActivities(get, inputs);
+  set({
+    projects: projects.map((p) =>
+      previousProjects.has(p.id) ? { ...p, deletedAt } : p
+    ),
+    tasks: tasks.map((t) =>
+      previousTasks.has(t.id) ? { ...t, deletedAt } : t
+    ),
+    activity: logged.activity,
+  });
+  syncMutation(
+    async () => {
+      await Promise.all([
+        ...ids.projects.map((id) => adapter.updateProject(id, { deletedAt })),
+        ...ids.tasks.map((id) => adapter.updateTask(id, { deletedAt })),
+      ]);
+      for (const entry of logged.entries) {
+        await adapter.recordActivity(entry);
+      }
+    },
+    () =>
+      set((state) => ({
+        projects: state.projects.map((p) => {
+          const previous = previousProjects.get(p.id);
+          return previous ? revertFields(p, previous, { deletedAt }) : p;
+        }),
+        tasks: state.tasks.map((t) => {
+          const previous = previousTasks.get(t.id);
+          return previous ? revertFields(t, previous, { deletedAt }) : t;
+        }),
+        activity: logged.undo(state.activity),
+      }))
+  );
+};
+
+/**
+ * Removes projects and tasks for good. A project's tasks and a task's
+ * subtasks, trashed or not, always go along with it. With `forget`, they
+ * are also taken out of the undo and redo history so nothing brings them
+ * back.
+ */
+const purge = (
+  get: () => AppState,
+  set: StoreApi<AppState>["setState"],
+  projectIds: string[],
+  taskIds: string[],
+  { forget = false } = {}
+) => {
+  const { projects, tasks } = get();
+  const doomedProjects = new Set(projectIds);
+  const doomedTasks = new Set(
+    [
+      ...tasks.filter((t) => doomedProjects.has(t.projectId)).map((t) => t.id),
+      ...taskIds,
+    ].flatMap((id) => [id, ...getDescendantIds(tasks, id)])
+  );
+  const removedProjects = projects.filter((p) => doomedProjects.has(p.id));
+  const removedTasks = tasks.filter((t) => doomedTasks.has(t.id));
+  if (removedProjects.length === 0 && removedTasks.length === 0) return;
+  const without = (entry: HistoryEntry): HistoryEntry => ({
+    ...entry,
+    projects: entry.projects.filter((p) => !doomedProjects.has(p.id)),
+    tasks: entry.tasks.filter((t) => !doomedTasks.has(t.id)),
+  });
+  set((state) => ({
+    projects: state.projects.filter((p) => !doomedProjects.has(p.id)),
+    tasks: state.tasks.filter((t) => !doomedTasks.has(t.id)),
+    ...(forget && {
+      undoStack: state.undoStack.map(without),
+      redoStack: state.redoStack.map(without),
+    }),
+  }));
+  syncMutation(
+    async () => {
+      // Deleting a project takes its tasks along on the server, so the
+      // tasks have to go first.
+      await Promise.all(removedTasks.map((t) => adapter.deleteTask(t.id)));
+      await Promise.all(
+        removedProjects.map((p) => adapter.deleteProject(p.id))
+      );
+    },
+    () =>
+      set((state) => ({
+        projects: [...state.projects, ...removedProjects],
+        tasks: [...state.tasks, ...removedTasks],
+      }))
+  );
+};
+
+// Set while a batch runs, so its changes share the batch's one checkpoint.
+let batchDepth = 0;
+
+/** Saves the workspace as it is now so the change about to happen can be undone. */
+const checkpoint = (
+  get: () => AppState,
+  set: StoreApi<AppState>["setState"],
+  label: string
+) => {
+  if (batchDepth > 0) return;
+  const { projects, tasks, undoStack } = get();
+  set({
+    undoStack: [...undoStack, { label, projects, tasks }].slice(-MAX_HISTORY),
+    redoStack: [],
+  });
+};
+
+/**
+ * Whether any of these projects is archived. Archived projects are
+ * read-only: their tasks can't be added, edited, moved or trashed, and no
+ * task can move into one.
+ */
+const touchesArchived = (
+  get: () => AppState,
+  projectIds: (string | undefined)[]
+) => {
+  const { projects } = get();
+  return projectIds.some(
+    (id) => id !== undefined && isArchived(projects.find((p) => p.id === id))
+  );
+};
+
+/**
+ * Puts the workspace back to `target` and mirrors the difference to the
+ * adapter as ordinary creates, updates and deletes. Each item that comes
+ * back, goes away or changes is logged; tasks riding along with their
+ * project, into or out of the trash, are covered by the project's entry.
+ * Wholesale changes such as imports can opt out of logging.
+ */
+const restoreWorkspace = (
+  get: () => AppState,
+  set: StoreApi<AppState>["setState"],
+  target: Pick<HistoryEntry, "projects" | "tasks">,
+  { logChanges = true } = {}
+) => {
+  const { projects, tasks } = get();
+  const projectDiff = diffById(projects, target.projects);
+  const taskDiff = diffById(tasks, target.tasks);
+  set({ projects: target.projects, tasks: target.tasks });
+
+  const log = (
+    action: ActivityEntry["action"],
+    item: Project | Task,
+    changes: FieldChange[] = []
+  ) =>
+    "title" in item
+      ? logActivity(get, set, {
+          action,
+          entityType: "task",
+          entityId: item.id,
+          entityName: item.title,
+          projectId: item.projectId,
+          changes,
+        })
+      : logActivity(get, set, {
+          action,
+          entityType: "project",
+          entityId: item.id,
+          entityName: item.name,
+          projectId: item.id,
+          changes,
+        });
+  // Going in or out of the trash reads as a deletion or restore, not an edit.
+  const logChange = (before: Project | Task, after: Project | Task) => {
+    if (!before.deletedAt && after.deletedAt) return log("deleted", after);
+    if (before.deletedAt && !after.deletedAt) return log("restored", after);
+    const changes = diffFields(before, after);
+    return changes.length > 0 ? log("updated", after, changes) : undefined;
+  };
+
+  const movedProjects = new Set(
+    [
+      ...projectDiff.added,
+      ...projectDiff.removed,
+      ...projectDiff.changed
+        .filter(({ before, after }) => !before.deletedAt !== !after.deletedAt)
+        .map(({ after }) => after),
+    ].map((p) => p.id)
+  );
+  const ownTasks = (list: Task[]) =>
+    list.filter((t) => !movedProjects.has(t.projectId));
+  const logged = (
+    logChanges
+      ? [
+          ...projectDiff.added.map((p) => log("created", p)),
+          ...projectDiff.changed.map(({ before, after }) =>
+            logChange(before, after)
+          ),
+          ...projectDiff.removed.map((p) => log("deleted", p)),
+          ...ownTasks(taskDiff.added).map((t) => log("created", t)),
+          ...taskDiff.changed
+            .filter(({ after }) => !movedProjects.has(after.projectId))
+            .map(({ before, after }) => logChange(before, after)),
+          ...ownTasks(taskDiff.removed).map((t) => log("deleted", t)),
+        ]
+      : []
+  ).filter((entry) => entry !== undefined);
+
+  syncMutation(
+    async () => {
+      // Projects have to exist before their tasks, and their tasks have to
+      // go before them, since deleting a project takes its tasks along.
+      await Promise.all(projectDiff.added.map((p) => adapter.createProject(p)));
+      await Promise.all(
+        projectDiff.changed.map(({ before, after }) =>
+          adapter.updateProject(after.id, replacementPatch(before, after))
+        )
+      );
+      await Promise.all(taskDiff.added.map((t) => adapter.createTask(t)));
+      await Promise.all(
+        taskDiff.changed.map(({ before, after }) =>
+          adapter.updateTask(after.id, replacementPatch(before, after))
+        )
+      );
+      await Promise.all(taskDiff.removed.map((t) => adapter.deleteTask(t.id)));
+      await Promise.all(
+        projectDiff.removed.map((p) => adapter.deleteProject(p.id))
+      );
+      for (const entry of logged) {
+        await adapter.recordActivity(entry.entry);
+      }
+    },
+    () => {
+      set((state) => ({
+        projects: revertDiff(state.projects, projectDiff),
+        tasks: revertDiff(state.tasks, taskDiff),
+      }));
+      [...logged].reverse().forEach((entry) => entry.undo());
+    }
+  );
+};
+
+/**
+ * Loads a freshly signed-in user's workspace. If it can't be fetched the
+ * session is dropped again, so the caller can report a failed sign-in
+ * instead of leaving a token behind with no workspace.
+ */
+const signIn = async (
+  get: () => AppState,
+  set: StoreApi<AppState>["setState"],
+  user: User
+) => {
+  let workspace: Awaited<ReturnType<typeof adapter.fetchWorkspace>>;
+  try {
+    workspace = await adapter.fetchWorkspace(user);
+  } catch {
+    get().logout();
+    return false;
+  }
+  set({
+    user,
+    ...workspace,
+    ...loadPreferences(user.id, get()),
+    undoStack: [],
+    redoStack: [],
+  });
+  return true;
+};
+
+/** Whether restoring `entry` would change anything. */
+const differsFromCurrent = (state: AppState, entry: HistoryEntry) =>
+  [
+    diffById(state.projects, entry.projects),
+    diffById(state.tasks, entry.tasks),
+  ].some((d) => d.added.length + d.removed.length + d.changed.length > 0);
 
 export const useStore = create<AppState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       user: null,
       projects: [],
       tasks: [],
+      activity: [],
       theme: "light",
+      ...defaultPreferences(),
+      undoStack: [],
+      redoStack: [],
+
+      login: async (email, password) => {
+        const user = await adapter.login(email, password);
+        return user ? signIn(get, set, user) : false;
+      },
+
+      register: async (name, email, password) => {
+        const user = await adapter.register(name, email, password);
+        return user ? signIn(get, set, user) : false;
+      },
+
+      logout: () => {
+        set({
+          user: null,
+          ...emptyWorkspace(),
+          ...defaultPreferences(),
+          undoStack: [],
+          redoStack: [],
+        });
+        void adapter.logout();
+      },
 
-      login: (email, password) => {
-        const storedUsers = JSON.parse(
-          localStorage.getItem("promanage-users") || "[]"
+      addProject: (project) => {
+        checkpoint(get, set, "Create project");
+        const created: Project = {
+          statuses: DEFAULT_WORKFLOW,
+          ...project,
+          id: generateId(),
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({ projects: [...state.projects, created] }));
+        const logged = logActivity(get, set, {
+          action: "created",
+          entityType: "project",
+          entityId: created.id,
+          entityName: created.name,
+          projectId: created.id,
+        });
+        syncMutation(
+          async () => {
+            await adapter.createProject(created);
+            await adapter.recordActivity(logged.entry);
+          },
+          () => {
+            set((state) => ({
+              projects: state.projects.filter((p) => p.id !== created.id),
+            }));
+            logged.undo();
+          }
         );
-        const user = storedUsers.find(
-          (u: { email: string; password: string; name: string; id?: string }) =>
-            u.email === email && u.password === password
+        return created;
+      },
+
+      updateProject: (id, project) => {
+        const previous = get().projects.find((p) => p.id === id);
+        if (!previous) return;
+        checkpoint(get, set, "Edit project");
+        set((state) => ({
+          projects: state.projects.map((p) =>
+            p.id === id ? { ...p, ...project } : p
+          ),
+        }));
+        const changes = diffFields(previous, project);
+        const logged =
+          changes.length > 0
+            ? logActivity(get, set, {
+                action: "updated",
+                entityType: "project",
+                entityId: id,
+                entityName: project.name ?? previous.name,
+                projectId: id,
+                changes,
+              })
+            : undefined;
+        syncMutation(
+          async () => {
+            await adapter.updateProject(id, project);
+            if (logged) await adapter.recordActivity(logged.entry);
+          },
+          () => {
+            set((state) => ({
+              projects: state.projects.map((p) =>
+                p.id === id ? revertFields(p, previous, project) : p
+              ),
+            }));
+            logged?.undo();
+          }
         );
-        if (user) {
-          set({
-            user: {
-              id: user.id || generateId(),
-              name: user.name,
-              email: user.email,
-            },
-          });
-          return true;
+      },
+
+      deleteProject: (id) => {
+        const { projects, tasks } = get();
+        const removed = projects.find((p) => p.id === id && !p.deletedAt);
+        if (!removed) return;
+        checkpoint(get, set, "Delete project");
+        setDeletedAt(
+          get,
+          set,
+          {
+            projects: [id],
+            tasks: tasks
+              .filter((t) => t.projectId === id && !t.deletedAt)
+              .map((t) => t.id),
+          },
+          new Date().toISOString(),
+          {
+            action: "deleted",
+            entityType: "project",
+            entityId: id,
+            entityName: removed.name,
+            projectId: id,
+          }
+        );
+      },
+
+      restoreProject: (id) => {
+        const { projects, tasks } = get();
+        const trashed = projects.find((p) => p.id === id && p.deletedAt);
+        if (!trashed) return;
+        checkpoint(get, set, "Restore project");
+        // Tasks trashed on their own beforehand stay in the trash.
+        setDeletedAt(
+          get,
+          set,
+          {
+            projects: [id],
+            tasks: tasks
+              .filter(
+                (t) => t.projectId === id && t.deletedAt === trashed.deletedAt
+              )
+              .map((t) => t.id),
+          },
+          undefined,
+          {
+            action: "restored",
+            entityType: "project",
+            entityId: id,
+            entityName: trashed.name,
+            projectId: id,
+          }
+        );
+      },
+
+      purgeProject: (id) => {
+        if (!get().projects.some((p) => p.id === id && p.deletedAt)) return;
+        checkpoint(get, set, "Delete project permanently");
+        purge(get, set, [id], []);
+      },
+
+      archiveProject: (id) =>
+        get().batch("Archive project", () =>
+          get().updateProject(id, { archivedAt: new Date().toISOString() })
+        ),
+
+      unarchiveProject: (id) =>
+        get().batch("Unarchive project", () =>
+          get().updateProject(id, { archivedAt: undefined })
+        ),
+
+      addTask: (task) => {
+        if (touchesArchived(get, [task.projectId])) return undefined;
+        checkpoint(get, set, "Create task");
+        const createdAt = new Date().toISOString();
+        const created: Task = {
+          checklist: [],
+          blockedBy: [],
+          ...task,
+          id: generateId(),
+          createdAt,
+          order: Math.max(0, ...get().tasks.map((t) => t.order)) + 1,
+          statusHistory: [{ status: task.status, at: createdAt }],
+        };
+        set((state) => ({ tasks: [...state.tasks, created] }));
+        const logged = logActivity(get, set, {
+          action: "created",
+          entityType: "task",
+          entityId: created.id,
+          entityName: created.title,
+          projectId: created.projectId,
+        });
+        syncMutation(
+          async () => {
+            await adapter.createTask(created);
+            await adapter.recordActivity(logged.entry);
+          },
+          () => {
+            set((state) => ({
+              tasks: state.tasks.filter((t) => t.id !== created.id),
+            }));
+            logged.undo();
+          }
+        );
+        return created;
+      },
+
+      updateTask: (id, task) => {
+        const previous = get().tasks.find((t) => t.id === id && !t.deletedAt);
+        if (
+          !previous ||
+          touchesArchived(get, [previous.projectId, task.projectId])
+        ) {
+          return;
         }
-        return false;
+        checkpoint(get, set, "Edit task");
+        const changes = { ...task, ...trackStatus(previous, task.status) };
+        set((state) => ({
+          tasks: state.tasks.map((t) =>
+            t.id === id ? { ...t, ...changes } : t
+          ),
+        }));
+        const logged = logTaskUpdate(get, set, previous, changes);
+        syncMutation(
+          async () => {
+            await adapter.updateTask(id, changes);
+            if (logged) await adapter.recordActivity(logged.entry);
+          },
+          () => {
+            set((state) => ({
+              tasks: state.tasks.map((t) =>
+                t.id === id ? revertFields(t, previous, changes) : t
+              ),
+            }));
+            logged?.undo();
+          }
+        );
+      },
+
+      updateTasks: (updates) => {
+        const { tasks } = get();
+        const edits = updates.flatMap(({ id, changes }) => {
+          const previous = tasks.find((t) => t.id === id && !t.deletedAt);
+          if (
+            !previous ||
+            touchesArchived(get, [previous.projectId, changes.projectId])
+          ) {
+            return [];
+          }
+          return [
+            {
+              previous,
+              changes: { ...changes, ...trackStatus(previous, changes.status) },
+            },
+          ];
+        });
+        if (edits.length === 0) return;
+        checkpoint(
+          get,
+          set,
+          edits.length === 1 ? "Edit task" : `Edit ${edits.length} tasks`
+        );
+        const byId = new Map(edits.map((edit) => [edit.previous.id, edit]));
+        const logged = appendActivities(
+          get,
+          edits.flatMap(
+            ({ previous, changes }) =>
+              taskUpdateActivity(previous, changes) ?? []
+          )
+        );
+        set({
+          tasks: tasks.map((t) => {
+            const edit = byId.get(t.id);
+            return edit ? { ...t, ...edit.changes } : t;
+          }),
+          activity: logged.activity,
+        });
+        syncMutation(
+          async () => {
+            await Promise.all(
+              edits.map(({ previous, changes }) =>
+                adapter.updateTask(previous.id, changes)
+              )
+            );
+            for (const entry of logged.entries) {
+              await adapter.recordActivity(entry);
+            }
+          },
+          () =>
+            set((state) => ({
+              tasks: state.tasks.map((t) => {
+                const edit = byId.get(t.id);
+                return edit ? revertFields(t, edit.previous, edit.changes) : t;
+              }),
+              activity: logged.undo(state.activity),
+            }))
+        );
+      },
+
+      reorderTask: (id, status, order) => {
+        const previous = get().tasks.find((t) => t.id === id);
+        if (!previous || touchesArchived(get, [previous.projectId])) return;
+        get().batch("Move task", () => {
+          const changes = { status, order, ...trackStatus(previous, status) };
+          set((state) => ({
+            tasks: state.tasks.map((t) =>
+              t.id === id ? { ...t, ...changes } : t
+            ),
+          }));
+          const logged = logTaskUpdate(get, set, previous, changes);
+          syncMutation(
+            async () => {
+              await adapter.updateTask(id, changes);
+              if (logged) await adapter.recordActivity(logged.entry);
+            },
+            () => {
+              set((state) => ({
+                tasks: state.tasks.map((t) =>
+                  t.id === id ? revertFields(t, previous, changes) : t
+                ),
+              }));
+              logged?.undo();
+            }
+          );
+
+          // Each drop between the same two cards halves the gap; once ranks
+          // crowd together, the column is spread out again in the same step.
+          const column = get()
+            .tasks.filter(
+              (t) =>
+                t.status === status &&
+                !t.deletedAt &&
+                !touchesArchived(get, [t.projectId])
+            )
+            .sort(byOrder);
+          if (ranksNeedSpacing(column)) get().updateTasks(spaceRanks(column));
+        });
       },
 
-      register: (name, email, password) => {
-        const storedUsers = JSON.parse(
-          localStorage.getItem("promanage-users") || "[]"
+      setBlockedBy: (id, blockedBy) => {
+        const { tasks, updateTask } = get();
+        // Check each blocker against the graph without this task's current
+        // edges, since those are being replaced.
+        const others = tasks.map((t) =>
+          t.id === id ? { ...t, blockedBy: [] } : t
         );
-        if (storedUsers.find((u: { email: string }) => u.email === email)) {
+        if (
+          blockedBy.some((blockerId) => wouldCreateCycle(others, id, blockerId))
+        ) {
           return false;
         }
-        const newUser = { id: generateId(), name, email, password };
-        storedUsers.push(newUser);
-        localStorage.setItem("promanage-users", JSON.stringify(storedUsers));
-        set({ user: { id: newUser.id, name, email } });
+        updateTask(id, { blockedBy: [...new Set(blockedBy)] });
         return true;
       },
 
-      logout: () => set({ user: null }),
+      deleteTask: (id) => {
+        const { tasks } = get();
+        const root = tasks.find((t) => t.id === id && !t.deletedAt);
+        if (!root || touchesArchived(get, [root.projectId])) return;
+        checkpoint(get, set, "Delete task");
+        // Subtasks belong to their parent and go with it.
+        const subtaskIds = getDescendantIds(tasks, id).filter(
+          (subtaskId) => !tasks.find((t) => t.id === subtaskId)?.deletedAt
+        );
+        setDeletedAt(
+          get,
+          set,
+          { projects: [], tasks: [id, ...subtaskIds] },
+          new Date().toISOString(),
+          {
+            action: "deleted",
+            entityType: "task",
+            entityId: id,
+            entityName: root.title,
+            projectId: root.projectId,
+          }
+        );
+      },
 
-      addProject: (project) =>
-        set((state) => ({
-          projects: [
-            ...state.projects,
-            {
-              ...project,
-              id: generateId(),
-              createdAt: new Date().toISOString(),
-            },
-          ],
-        })),
+      deleteTasks: (ids) => {
+        const { tasks } = get();
+        const isLive = (id: string) =>
+          tasks.some(
+            (t) =>
+              t.id === id &&
+              !t.deletedAt &&
+              !touchesArchived(get, [t.projectId])
+          );
+        const selected = new Set(ids.filter(isLive));
+        // Selected subtasks go with a selected parent and aren't logged on
+        // their own.
+        const subtaskIds = new Set(
+          [...selected].flatMap((id) => getDescendantIds(tasks, id))
+        );
+        const roots = tasks.filter(
+          (t) => selected.has(t.id) && !subtaskIds.has(t.id)
+        );
+        if (roots.length === 0) return;
+        checkpoint(
+          get,
+          set,
+          roots.length === 1 ? "Delete task" : `Delete ${roots.length} tasks`
+        );
+        setDeletedAt(
+          get,
+          set,
+          {
+            projects: [],
+            tasks: [
+              ...roots.map((t) => t.id),
+              ...[...subtaskIds].filter(isLive),
+            ],
+          },
+          new Date().toISOString(),
+          ...roots.map((root): ActivityInput => ({
+            action: "deleted",
+            entityType: "task",
+            entityId: root.id,
+            entityName: root.title,
+            projectId: root.projectId,
+          }))
+        );
+      },
 
-      updateProject: (id, project) =>
-        set((state) => ({
-          projects: state.projects.map((p) =>
-            p.id === id ? { ...p, ...project } : p
-          ),
-        })),
+      restoreTask: (id) => {
+        const { projects, tasks } = get();
+        const trashed = tasks.find((t) => t.id === id && t.deletedAt);
+        // A task in a trashed project comes back with the project.
+        if (
+          !trashed ||
+          projects.find((p) => p.id === trashed.projectId)?.deletedAt
+        ) {
+          return;
+        }
+        checkpoint(get, set, "Restore task");
+        const subtaskIds = getDescendantIds(tasks, id).filter(
+          (subtaskId) =>
+            tasks.find((t) => t.id === subtaskId)?.deletedAt ===
+            trashed.deletedAt
+        );
+        setDeletedAt(
+          get,
+          set,
+          { projects: [], tasks: [id, ...subtaskIds] },
+          undefined,
+          {
+            action: "restored",
+            entityType: "task",
+            entityId: id,
+            entityName: trashed.title,
+            projectId: trashed.projectId,
+          }
+        );
+      },
 
-      deleteProject: (id) =>
-        set((state) => ({
-          projects: state.projects.filter((p) => p.id !== id),
-          tasks: state.tasks.filter((t) => t.projectId !== id),
-        })),
+      purgeTask: (id) => {
+        if (!get().tasks.some((t) => t.id === id && t.deletedAt)) return;
+        checkpoint(get, set, "Delete task permanently");
+        purge(get, set, [], [id]);
+      },
 
-      addTask: (task) =>
-        set((state) => ({
-          tasks: [
-            ...state.tasks,
-            { ...task, id: generateId(), createdAt: new Date().toISOString() },
-          ],
-        })),
+      emptyTrash: () => {
+        const { projects, tasks } = get();
+        const trashedProjects = projects.filter((p) => p.deletedAt);
+        const trashedTasks = tasks.filter((t) => t.deletedAt);
+        if (trashedProjects.length === 0 && trashedTasks.length === 0) return;
+        checkpoint(get, set, "Empty trash");
+        purge(
+          get,
+          set,
+          trashedProjects.map((p) => p.id),
+          trashedTasks.map((t) => t.id)
+        );
+      },
 
-      updateTask: (id, task) =>
+      purgeExpiredTrash: () => {
+        const { projects, tasks, trashRetentionDays } = get();
+        const expired = (item: Project | Task) =>
+          isPastRetention(item, trashRetentionDays);
+        purge(
+          get,
+          set,
+          projects.filter(expired).map((p) => p.id),
+          tasks.filter(expired).map((t) => t.id),
+          // Expiry isn't something the user did, so there's no undo step
+          // for it, and older steps mustn't bring the items back either.
+          { forget: true }
+        );
+      },
+
+      importWorkspace: (workspace, mode) => {
+        checkpoint(get, set, "Import backup");
+        const { projects, tasks, activity } = get();
+        restoreWorkspace(
+          get,
+          set,
+          applyImport({ projects, tasks }, workspace, mode),
+          { logChanges: false }
+        );
+        const known = new Set(activity.map((e) => e.id));
+        const added = workspace.activity.filter((e) => !known.has(e.id));
+        if (added.length === 0) return;
+        set({ activity: mergeActivity(activity, added) });
+        syncMutation(
+          async () => {
+            for (const entry of added) await adapter.recordActivity(entry);
+          },
+          () =>
+            set((state) => ({
+              activity: state.activity.filter((e) => !added.includes(e)),
+            }))
+        );
+      },
+
+      setTrashRetention: (days) => set({ trashRetentionDays: days }),
+
+      setShortcutBinding: (id, keys) =>
+        set((state) => {
+          const shortcutBindings = { ...state.shortcutBindings };
+          if (keys === null) {
+            delete shortcutBindings[id];
+          } else {
+            shortcutBindings[id] = keys;
+          }
+          return { shortcutBindings };
+        }),
+
+      resetShortcutBindings: () => set({ shortcutBindings: {} }),
+
+      setTaskTableLayout: (layout) => set({ taskTableLayout: layout }),
+
+      saveView: (name, query) => {
+        const { savedViews } = get();
+        const existing = savedViews.find(
+          (view) => view.name.toLowerCase() === name.toLowerCase()
+        );
+        const view = { id: existing?.id ?? generateId(), name, query };
+        set({
+          savedViews: existing
+            ? savedViews.map((v) => (v.id === existing.id ? view : v))
+            : [...savedViews, view],
+        });
+        return view;
+      },
+
+      deleteView: (id) =>
         set((state) => ({
-          tasks: state.tasks.map((t) => (t.id === id ? { ...t, ...task } : t)),
+          savedViews: state.savedViews.filter((view) => view.id !== id),
         })),
 
-      deleteTask: (id) =>
+      rememberCommand: (id) =>
         set((state) => ({
-          tasks: state.tasks.filter((t) => t.id !== id),
+          recentCommands: [
+            id,
+            ...state.recentCommands.filter((recent) => recent !== id),
+          ].slice(0, MAX_RECENT_COMMANDS),
         })),
 
+      undo: () => {
+        const { undoStack, redoStack, projects, tasks } = get();
+        // Steps whose change never took, such as a rolled-back remote save,
+        // would undo to what's already there; skip past them.
+        const stack = [...undoStack];
+        let entry = stack.pop();
+        while (entry && !differsFromCurrent(get(), entry)) entry = stack.pop();
+        if (!entry) {
+          set({ undoStack: [] });
+          return undefined;
+        }
+        set({
+          undoStack: stack,
+          redoStack: [...redoStack, { label: entry.label, projects, tasks }],
+        });
+        restoreWorkspace(get, set, entry);
+        return entry.label;
+      },
+
+      redo: () => {
+        const { undoStack, redoStack, projects, tasks } = get();
+        const entry = redoStack[redoStack.length - 1];
+        if (!entry) return undefined;
+        set({
+          undoStack: [...undoStack, { label: entry.label, projects, tasks }],
+          redoStack: redoStack.slice(0, -1),
+        });
+        restoreWorkspace(get, set, entry);
+        return entry.label;
+      },
+
+      batch: (label, fn) => {
+        checkpoint(get, set, label);
+        batchDepth += 1;
+        try {
+          fn();
+        } finally {
+          batchDepth -= 1;
+        }
+      },
+
       toggleTheme: () =>
         set((state) => {
           const newTheme = state.theme === "light" ? "dark" : "light";
@@ -160,6 +1256,34 @@ export const useStore = create<AppState>()(
     }),
     {
       name: "promanage-storage",
+      version: 1,
+      storage: workspaceStorage,
+      partialize: (state): PersistedAppState => ({
+        user: state.user,
+        theme: state.theme,
+        trashRetentionDays: state.trashRetentionDays,
+        shortcutBindings: state.shortcutBindings,
+        taskTableLayout: state.taskTableLayout,
+        savedViews: state.savedViews,
+        recentCommands: state.recentCommands,
+        projects: state.projects,
+        tasks: state.tasks,
+        activity: state.activity,
+      }),
+      migrate: (persisted, version) => {
+        const state = persisted as PersistedAppState;
+        if (version === 0 && !state.user) {
+          // Nobody is logged in to claim the shared data yet; park it until
+          // the next login picks it up.
+          stashLegacyWorkspace({
+            projects: state.projects ?? [],
+            tasks: state.tasks ?? [],
+            activity: [],
+          });
+          return { ...state, ...emptyWorkspace() };
+        }
+        return state;
+      },
       onRehydrateStorage: () => (state) => {
         if (state?.theme === "dark") {
           document.documentElement.classList.add("dark");
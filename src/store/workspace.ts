@@ -0,0 +1,214 @@
+import type { PersistStorage, StorageValue } from "zustand/middleware";
+import { DEFAULT_WORKFLOW } from "@/lib/workflow";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/lib/trash";
+import { defaultTableLayout, normalizeTableLayout } from "@/lib/taskTable";
+import type { TableLayout } from "@/lib/taskTable";
+import type { ShortcutBindings } from "@/lib/shortcuts";
+import type { ActivityEntry, Project, SavedView, Task, User } from "./useStore";
+
+export interface Workspace {
+  projects: Project[];
+  tasks: Task[];
+  activity: ActivityEntry[];
+}
+
+/** Settings each account keeps for itself on this browser. */
+export interface Preferences {
+  trashRetentionDays: number;
+  shortcutBindings: Partial<ShortcutBindings>;
+  taskTableLayout: TableLayout;
+  savedViews: SavedView[];
+  recentCommands: string[];
+}
+
+export interface PersistedAppState extends Workspace, Preferences {
+  user: User | null;
+  theme: "light" | "dark";
+}
+
+const LEGACY_WORKSPACE_KEY = "promanage-legacy-workspace";
+
+const workspaceKey = (userId: string) => `promanage-workspace-${userId}`;
+const preferencesKey = (userId: string) => `promanage-preferences-${userId}`;
+// Where these were kept before they joined the rest of the preferences.
+const legacyPreferenceKeys = (userId: string) => ({
+  taskTableLayout: `promanage-task-table-${userId}`,
+  savedViews: `promanage-saved-views-${userId}`,
+  recentCommands: `promanage-recent-commands-${userId}`,
+});
+
+export const emptyWorkspace = (): Workspace => ({
+  projects: [],
+  tasks: [],
+  activity: [],
+});
+
+const readJSON = <T>(key: string): T | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+/** Fills in fields added since the workspace was first saved. */
+export const normalizeWorkspace = (stored: Partial<Workspace>): Workspace => {
+  const workspace = { ...emptyWorkspace(), ...stored };
+  return {
+    ...workspace,
+    projects: workspace.projects.map((project) => ({
+      ...project,
+      statuses: project.statuses ?? DEFAULT_WORKFLOW,
+    })),
+    tasks: workspace.tasks.map((task, index) => ({
+      ...task,
+      order: task.order ?? index,
+      checklist: task.checklist ?? [],
+      blockedBy: task.blockedBy ?? [],
+      statusHistory: task.statusHistory ?? [],
+    })),
+  };
+};
+
+export const loadWorkspace = (userId: string): Workspace => {
+  const stored = readJSON<Partial<Workspace>>(workspaceKey(userId));
+  if (stored) {
+    return normalizeWorkspace(stored);
+  }
+
+  // Data persisted before workspaces existed, while nobody was logged in,
+  // goes to the first account that logs in on this browser.
+  const legacy = readJSON<Partial<Workspace>>(LEGACY_WORKSPACE_KEY);
+  if (legacy) {
+    const workspace = normalizeWorkspace(legacy);
+    saveWorkspace(userId, workspace);
+    localStorage.removeItem(LEGACY_WORKSPACE_KEY);
+    return workspace;
+  }
+
+  return emptyWorkspace();
+};
+
+export const saveWorkspace = (userId: string, workspace: Workspace) => {
+  localStorage.setItem(workspaceKey(userId), JSON.stringify(workspace));
+};
+
+export const defaultPreferences = (): Preferences => ({
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  shortcutBindings: {},
+  taskTableLayout: defaultTableLayout,
+  savedViews: [],
+  recentCommands: [],
+});
+
+const isSavedView = (view: unknown): view is SavedView => {
+  const { id, name, query } = (view ?? {}) as Partial<SavedView>;
+  return (
+    typeof id === "string" &&
+    typeof name === "string" &&
+    typeof query === "string"
+  );
+};
+
+/**
+ * The user's saved preferences over the defaults. `legacy` holds settings
+ * from before they were kept per user, which an account without its own
+ * inherits.
+ */
+export const loadPreferences = (
+  userId: string,
+  legacy: Partial<Preferences> = {}
+): Preferences => {
+  const legacyKeys = legacyPreferenceKeys(userId);
+  const source: Partial<Record<keyof Preferences, unknown>> = {
+    trashRetentionDays: legacy.trashRetentionDays,
+    shortcutBindings: legacy.shortcutBindings,
+    taskTableLayout: readJSON(legacyKeys.taskTableLayout),
+    savedViews: readJSON(legacyKeys.savedViews),
+    recentCommands: readJSON(legacyKeys.recentCommands),
+    ...readJSON<Partial<Preferences>>(preferencesKey(userId)),
+  };
+  const defaults = defaultPreferences();
+  return {
+    trashRetentionDays:
+      typeof source.trashRetentionDays === "number"
+        ? source.trashRetentionDays
+        : defaults.trashRetentionDays,
+    shortcutBindings:
+      source.shortcutBindings && typeof source.shortcutBindings === "object"
+        ? (source.shortcutBindings as Partial<ShortcutBindings>)
+        : defaults.shortcutBindings,
+    taskTableLayout: normalizeTableLayout(source.taskTableLayout),
+    savedViews: Array.isArray(source.savedViews)
+      ? source.savedViews.filter(isSavedView)
+      : defaults.savedViews,
+    recentCommands: Array.isArray(source.recentCommands)
+      ? source.recentCommands.filter((id) => typeof id === "string")
+      : defaults.recentCommands,
+  };
+};
+
+export const savePreferences = (userId: string, preferences: Preferences) => {
+  localStorage.setItem(preferencesKey(userId), JSON.stringify(preferences));
+  Object.values(legacyPreferenceKeys(userId)).forEach((key) =>
+    localStorage.removeItem(key)
+  );
+};
+
+export const stashLegacyWorkspace = (workspace: Workspace) => {
+  if (workspace.projects.length === 0 && workspace.tasks.length === 0) return;
+  localStorage.setItem(LEGACY_WORKSPACE_KEY, JSON.stringify(workspace));
+};
+
+/**
+ * Splits the persisted store across keys: the session (user and theme)
+ * lives under the store name, while each user's projects, tasks and
+ * preferences live under their own keys so accounts sharing a browser never
+ * see or affect each other's data.
+ */
+export const workspaceStorage: PersistStorage<PersistedAppState> = {
+  getItem: (name) => {
+    const stored = readJSON<StorageValue<PersistedAppState>>(name);
+    if (!stored) return null;
+
+    const { user } = stored.state;
+    if (!user) return stored;
+    const preferences = loadPreferences(user.id, stored.state);
+
+    const hasWorkspace = localStorage.getItem(workspaceKey(user.id)) !== null;
+    // Legacy snapshots still carry projects and tasks inline; keep them so
+    // the migration can hand them to the logged-in user.
+    if (!hasWorkspace && stored.state.projects) {
+      return {
+        ...stored,
+        state: {
+          ...stored.state,
+          ...normalizeWorkspace(stored.state),
+          ...preferences,
+        },
+      };
+    }
+
+    return {
+      ...stored,
+      state: { ...stored.state, ...loadWorkspace(user.id), ...preferences },
+    };
+  },
+
+  setItem: (name, value) => {
+    const { user, theme, projects, tasks, activity, ...preferences } =
+      value.state;
+    localStorage.setItem(
+      name,
+      JSON.stringify({ state: { user, theme }, version: value.version })
+    );
+    if (user) {
+      saveWorkspace(user.id, { projects, tasks, activity });
+      savePreferences(user.id, preferences);
+    }
+  },
+
+  removeItem: (name) => localStorage.removeItem(name),
+};
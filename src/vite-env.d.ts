@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `rest` talks to the API at VITE_API_URL; anything else stays local. */
+  readonly VITE_STORAGE_ADAPTER?: "local" | "rest";
+  readonly VITE_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
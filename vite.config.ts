@@ -19,6 +19,10 @@ export default defineConfig({
   server: {
     port: 5173,
     open: true,
+    proxy: {
+      // Target of the REST adapter; see server/mock-api.js.
+      "/api": "http://localhost:4000",
+    },
   },
   build: {
     outDir: "dist",